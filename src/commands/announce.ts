@@ -0,0 +1,43 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { AnnounceService, BootstrapUtils, CommandUtils, OfflineTransactionService } from '../service';
+
+export default class Announce extends Command {
+    static description = `It announces the transactions signed offline with the 'sign' command and waits for their confirmation.`;
+
+    static examples = [
+        `$ symbol-bootstrap announce --signed signed.json`,
+        `$ symbol-bootstrap announce --signed signed.json --useKnownRestGateways --ready`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        signed: flags.string({
+            description: 'The file with the signed transactions.',
+            required: true,
+        }),
+        url: AnnounceService.flags.url,
+        useKnownRestGateways: AnnounceService.flags.useKnownRestGateways,
+        ready: AnnounceService.flags.ready,
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Announce);
+        BootstrapUtils.showBanner();
+        await new OfflineTransactionService().announce(flags);
+    }
+}
@@ -0,0 +1,44 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command } from '@oclif/command';
+import { AnnounceService, BootstrapUtils, CommandUtils, LinkAuditService } from '../../service';
+
+export default class Links extends Command {
+    static description = `It compares the remote, VRF and voting keys linked on chain to each node's main account with the target's addresses.yml.
+
+Each key is reported as:
+- ok: the linked key is the configured one.
+- missing: the configured key is not linked.
+- stale: the linked voting key has expired.
+- foreign: the linked key is not the configured one, for example a key linked from a wallet.
+
+The command suggests how to fix the keys that are not ok.`;
+
+    static examples = [`$ symbol-bootstrap audit:links`, `$ symbol-bootstrap audit:links --useKnownRestGateways`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        url: AnnounceService.flags.url,
+        useKnownRestGateways: AnnounceService.flags.useKnownRestGateways,
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Links);
+        BootstrapUtils.showBanner();
+        await new LinkAuditService(flags).run();
+    }
+}
@@ -31,14 +31,18 @@ export default class Config extends Command {
         target: CommandUtils.targetFlag,
         password: CommandUtils.passwordFlag,
         noPassword: CommandUtils.noPasswordFlag,
-        preset: flags.enum({
+        preset: flags.string({
             char: 'p',
-            description: `The network preset, can be provided via custom preset or cli parameter. ${
+            description: `The network preset (${Object.keys(Preset).join(
+                ', ',
+            )} or a preset in the --presetsFolder), can be provided via custom preset or cli parameter. ${
                 required ? '' : 'If not provided, the value is resolved from the target/preset.yml file.'
             }`,
-            options: Object.keys(Preset).map((v) => v as Preset),
             required: required,
         }),
+        presetsFolder: flags.string({
+            description: `External folder with network presets. Each preset is a sub folder with its network.yml, assembly-<assembly>.yml files, seed folder and an optional descriptions.yml. Presets in this folder take precedence over the bundled ones. It can also be provided via custom preset. If not provided, the value is resolved from the target/preset.yml file.`,
+        }),
         assembly: flags.string({
             char: 'a',
             description: `The assembly, example "dual" for testnet. ${
@@ -48,9 +52,13 @@ export default class Config extends Command {
         }),
         customPreset: flags.string({
             char: 'c',
-            description: `External preset file. Values in this file will override the provided presets`,
+            description: `External preset file. Values in this file will override the provided presets. It can be provided more than once, files are merged in order.`,
+            multiple: true,
             required: required,
         }),
+        mnemonicFile: flags.string({
+            description: `File with the BIP39 mnemonic the node, nemesis and sink keys are derived from instead of random keys. The mnemonic can also be provided with the custom preset's mnemonic property. It's never stored in the target folder.`,
+        }),
         reset: flags.boolean({
             char: 'r',
             description: 'It resets the configuration generating a new one',
@@ -0,0 +1,70 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { LogType } from '../../logger';
+import Logger from '../../logger/Logger';
+import LoggerFactory from '../../logger/LoggerFactory';
+import { BootstrapUtils, CommandUtils, ConfigLoader, PresetProvenance } from '../../service';
+import Validate from './validate';
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+export default class Explain extends Command {
+    static description = `It explains where a resolved preset value comes from.
+
+The preset is resolved the same way the config command does. The command prints the final value and every layer (shared preset, network preset, assembly, custom preset, dynamic node defaults) that set or overrode it, in order. When --node is provided, the value is resolved for that node, node values override the root values of the preset.`;
+
+    static examples = [
+        `$ symbol-bootstrap config:explain maxTransactionsPerBlock -p testnet -a dual -c custom-preset.yml`,
+        `$ symbol-bootstrap config:explain syncsource -p testnet -a dual --node api-node`,
+    ];
+
+    static args = [
+        {
+            name: 'property',
+            description: 'The property to explain, like symbolServerImage or nemesis.mosaics[0].name',
+            required: true,
+        },
+    ];
+
+    static flags = {
+        ...Validate.flags,
+        password: CommandUtils.getPasswordFlag(
+            `The password used to decrypt an encrypted custom preset. Encrypted values are shown encrypted when the password is not provided.`,
+        ),
+        node: flags.string({
+            description: `The name of the node the property is resolved for.`,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { args, flags } = this.parse(Explain);
+        BootstrapUtils.showBanner();
+        const provenance = new PresetProvenance();
+        const presetData = new ConfigLoader().createPresetData({
+            ...flags,
+            root: this.config.root,
+            password: flags.password || false,
+            provenance,
+        });
+        const explanation = provenance.explain(presetData, args.property, flags.node);
+        const name = explanation.node ? `${explanation.property} (node ${explanation.node})` : explanation.property;
+        logger.info(`${name}: ${JSON.stringify(explanation.value)}`);
+        explanation.origins.forEach((origin, index) => {
+            logger.info(`  ${index + 1}. ${origin.source}: ${JSON.stringify(origin.value)}`);
+        });
+    }
+}
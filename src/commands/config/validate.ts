@@ -0,0 +1,68 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { LogType } from '../../logger';
+import Logger from '../../logger/Logger';
+import LoggerFactory from '../../logger/LoggerFactory';
+import { BootstrapUtils, CommandUtils, KnownError, Preset, PresetValidator } from '../../service';
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+export default class Validate extends Command {
+    static description = `It validates the preset, assembly and custom preset without generating any configuration.
+
+The preset is resolved the same way the config command does, including the repeat expansion. No keys, certificates, nemesis block or target files are created. The command fails if the custom preset has unknown or invalid values or if the resolved preset breaks rules like votingKeyDesiredFutureLifetime <= votingKeyDesiredLifetime, finalizationThreshold <= finalizationSize, unique service names or gateways pointing to api nodes.`;
+
+    static examples = [
+        `$ symbol-bootstrap config:validate -p testnet -a dual -c custom-preset.yml`,
+        `$ symbol-bootstrap config:validate -c custom-preset.yml --password 1234`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        preset: flags.string({
+            char: 'p',
+            description: `The network preset (${Object.keys(Preset).join(
+                ', ',
+            )} or a preset in the --presetsFolder), can be provided via custom preset or cli parameter.`,
+        }),
+        presetsFolder: flags.string({
+            description: `External folder with network presets. Presets in this folder take precedence over the bundled ones.`,
+        }),
+        assembly: flags.string({
+            char: 'a',
+            description: `The assembly, example "dual" for testnet.`,
+        }),
+        customPreset: flags.string({
+            char: 'c',
+            description: `External preset file. Values in this file will override the provided presets. It can be provided more than once, files are merged in order.`,
+            multiple: true,
+        }),
+        password: CommandUtils.getPasswordFlag(
+            `The password used to decrypt an encrypted custom preset. Encrypted values are not validated when the password is not provided.`,
+        ),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Validate);
+        BootstrapUtils.showBanner();
+        const errors = new PresetValidator(this.config.root).validate({ ...flags, password: flags.password || false });
+        if (errors.length) {
+            throw new KnownError(`Preset is not valid:\n${PresetValidator.toErrorLines(errors)}`);
+        }
+        logger.info('Preset is valid!');
+    }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { prompt } from 'inquirer';
+import { AnnounceService, BootstrapUtils, CommandUtils, CosignService } from '../service';
+
+export default class Cosign extends Command {
+    static description = `It cosigns the aggregate bonded transactions announced with --aggregateBonded for a multisig main account.
+
+Each cosigner runs this command with their own private key. The key is prompted and it's not stored anywhere. If --hash is not provided, the partial transactions of every multisig account the cosigner is cosignatory of are cosigned. The linked keys and the signers of each transaction are shown before cosigning it. The command reports the cosignatures that are still missing.`;
+
+    static examples = [
+        `$ symbol-bootstrap cosign`,
+        `$ symbol-bootstrap cosign --hash 7B0F2C9AF6EC5C8B6F0F1E1D9E5A0C0B3D4B8E6F7A2C1D0E9F8A7B6C5D4E3F21 --url http://my-node:3000`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        url: AnnounceService.flags.url,
+        hash: flags.string({
+            description: 'The hash of the aggregate bonded transaction to cosign.',
+        }),
+        ready: flags.boolean({
+            description: 'If --ready is provided, the command will not ask for confirmation when cosigning transactions.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Cosign);
+        BootstrapUtils.showBanner();
+        const { privateKey } = await prompt([
+            {
+                name: 'privateKey',
+                message: 'Enter the 64 HEX private key of the cosigner:',
+                type: 'password',
+                mask: '*',
+                validate: CommandUtils.isValidPrivateKey,
+            },
+        ]);
+        await new CosignService({ ...flags, privateKey: privateKey.toUpperCase() }).run();
+    }
+}
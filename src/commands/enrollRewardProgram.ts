@@ -30,12 +30,15 @@ Currently, the only program that can be enrolled post-launch is 'SuperNode'.`;
         `$ symbol-bootstrap enrollRewardProgram --useKnownRestGateways`,
         `$ symbol-bootstrap enrollRewardProgram --password 1234 --url http://external-rest:3000`,
         `$ echo "$MY_ENV_VAR_PASSWORD" | symbol-bootstrap enrollRewardProgram --url http://external-rest:3000`,
+        `$ symbol-bootstrap enrollRewardProgram --exportUnsigned unsigned.json`,
     ];
 
     static flags = {
         help: CommandUtils.helpFlag,
         target: CommandUtils.targetFlag,
         ...AnnounceService.flags,
+        ...AnnounceService.multisigFlags,
+        ...AnnounceService.exportFlags,
     };
 
     public async run(): Promise<void> {
@@ -0,0 +1,82 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { prompt } from 'inquirer';
+import { BootstrapUtils, CommandUtils, ImportableKey, KeyImportService } from '../../service';
+
+export default class Import extends Command {
+    static description = `It imports a node key from a Symbol desktop wallet profile export or an encrypted keystore json file into the target's addresses.yml.
+
+The account address must belong to the target's network. The key is stored following the preset's privateKeySecurityMode and encrypted with --password, the same way the config command stores the generated keys. Run 'config --upgrade' after importing the key to regenerate the node configuration.`;
+
+    static examples = [
+        `$ symbol-bootstrap keys:import --file wallet-profile.json --account "Seed Account 1" --node peer-node --key main`,
+        `$ symbol-bootstrap keys:import --file keystore.json --key remote --password 1234`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        password: CommandUtils.passwordFlag,
+        noPassword: CommandUtils.noPasswordFlag,
+        file: flags.string({
+            description: 'The wallet profile export or keystore json file.',
+            required: true,
+        }),
+        walletPassword: flags.string({
+            description: 'The password of the wallet profile or keystore. Bootstrap prompts for it if not provided.',
+        }),
+        key: flags.string({
+            description: 'The node key to import.',
+            options: KeyImportService.importableKeys,
+            default: 'main',
+        }),
+        node: flags.string({
+            description: 'The name of the node the key is imported into. Required when the target has more than one node.',
+        }),
+        profile: flags.string({
+            description: 'The wallet profile name. Required when the wallet profile export has more than one profile.',
+        }),
+        account: flags.string({
+            description: 'The wallet account name or address. Required when the wallet profile has more than one account.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Import);
+        BootstrapUtils.showBanner();
+        const password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        const walletPassword =
+            flags.walletPassword ||
+            (
+                await prompt([
+                    {
+                        name: 'walletPassword',
+                        mask: '*',
+                        message: `Enter the password of the wallet profile or keystore ${flags.file}:`,
+                        type: 'password',
+                    },
+                ])
+            ).walletPassword;
+        await new KeyImportService({ ...flags, password, walletPassword, key: flags.key as ImportableKey }).run();
+    }
+}
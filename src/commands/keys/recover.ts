@@ -0,0 +1,53 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, KeyRecoveryService } from '../../service';
+import Validate from '../config/validate';
+
+export default class Recover extends Command {
+    static description = `It recovers the keys from a BIP39 mnemonic and compares them with the addresses.yml of an existing target.
+
+The node, nemesis and sink keys are derived the same way the config command derives them when a mnemonic is provided. The preset and assembly are resolved from the target's preset.yml if not provided. The command fails if any key is different. Voting keys are not derived from the mnemonic.`;
+
+    static examples = [
+        `$ symbol-bootstrap keys:recover --mnemonicFile mnemonic.txt`,
+        `$ symbol-bootstrap keys:recover -c custom-preset.yml --password 1234`,
+    ];
+
+    static flags = {
+        ...Validate.flags,
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        password: CommandUtils.passwordFlag,
+        noPassword: CommandUtils.noPasswordFlag,
+        mnemonicFile: flags.string({
+            description: `File with the BIP39 mnemonic. It can also be provided with the custom preset's mnemonic property.`,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Recover);
+        BootstrapUtils.showBanner();
+        const password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        await new KeyRecoveryService(this.config.root, { ...flags, password: password || false }).run();
+    }
+}
@@ -0,0 +1,59 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { AnnounceService, BootstrapUtils, CommandUtils, KeyRotationService, RotatableKey } from '../../service';
+
+export default class Rotate extends Command {
+    static description = `It replaces a node's transport, remote or VRF key with a new generated key.
+
+Remote and VRF keys are rotated by announcing the transactions unlinking the old key and linking the new one. The transport key is rotated by regenerating the node certificates. The target's addresses.yml is only updated once the new key is in place and the previous addresses.yml is copied to the target's rollback folder. The new account is stored in the rollback folder, encrypted when a password is provided, before announcing, so running the command again after a failure resumes the rotation with the same account. Run 'config --upgrade' and restart the node after rotating the key.`;
+
+    static examples = [
+        `$ symbol-bootstrap keys:rotate --key remote`,
+        `$ symbol-bootstrap keys:rotate --key vrf --node peer-node --useKnownRestGateways`,
+        `$ symbol-bootstrap keys:rotate --key transport --password 1234`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        key: flags.string({
+            description: 'The node key to rotate.',
+            options: KeyRotationService.rotatableKeys,
+            required: true,
+        }),
+        node: flags.string({
+            description: 'The name of the node whose key is rotated. Required when the target has more than one node.',
+        }),
+        user: flags.string({
+            description: `User used to run docker images when creating the node certificates. "${BootstrapUtils.CURRENT_USER}" means the current user.`,
+            default: BootstrapUtils.CURRENT_USER,
+        }),
+        ...AnnounceService.flags,
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Rotate);
+        BootstrapUtils.showBanner();
+        flags.password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        await new KeyRotationService(this.config.root, { ...flags, key: flags.key as RotatableKey }).run();
+    }
+}
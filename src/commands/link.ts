@@ -22,7 +22,12 @@ import { CommandUtils } from '../service/CommandUtils';
 export default class Link extends Command {
     static description = `It announces VRF and Voting Link transactions to the network for each node with 'Peer' or 'Voting' roles. This command finalizes the node registration to an existing network.`;
 
-    static examples = [`$ symbol-bootstrap link`, `$ echo "$MY_ENV_VAR_PASSWORD" | symbol-bootstrap link --unlink --useKnownRestGateways`];
+    static examples = [
+        `$ symbol-bootstrap link`,
+        `$ echo "$MY_ENV_VAR_PASSWORD" | symbol-bootstrap link --unlink --useKnownRestGateways`,
+        `$ symbol-bootstrap link --exportUnsigned unsigned.json`,
+        `$ symbol-bootstrap link --aggregate`,
+    ];
 
     static flags = {
         help: CommandUtils.helpFlag,
@@ -32,6 +37,9 @@ export default class Link extends Command {
             default: LinkService.defaultParams.unlink,
         }),
         ...AnnounceService.flags,
+        ...AnnounceService.multisigFlags,
+        ...AnnounceService.aggregateFlags,
+        ...AnnounceService.exportFlags,
     };
 
     public async run(): Promise<void> {
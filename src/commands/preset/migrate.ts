@@ -0,0 +1,55 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { LogType } from '../../logger';
+import Logger from '../../logger/Logger';
+import LoggerFactory from '../../logger/LoggerFactory';
+import { BootstrapUtils, CommandUtils, ConfigLoader } from '../../service';
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+export default class Migrate extends Command {
+    static description = `It migrates custom preset files to the current custom preset version.
+
+Renamed properties are moved to their new names and deprecated properties are removed. The command rewrites the files and prints a summary of the changes. Encrypted values are kept encrypted. Yaml comments are not preserved, keep a copy of the original files.`;
+
+    static examples = [`$ symbol-bootstrap preset:migrate -c my-custom-preset.yml`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        customPreset: flags.string({
+            char: 'c',
+            description: `The custom preset file to migrate. It can be provided more than once.`,
+            required: true,
+            multiple: true,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Migrate);
+        BootstrapUtils.showBanner();
+        const configLoader = new ConfigLoader();
+        const version = configLoader.getCustomPresetVersion();
+        for (const file of flags.customPreset) {
+            const changes = await configLoader.migrateCustomPresetFile(file);
+            logger.info(`Custom preset '${file}' is on version ${version}.`);
+            if (!changes.length) {
+                logger.info(`  No renamed or deprecated properties were found.`);
+            }
+            changes.forEach((change) => logger.info(`  - ${change}`));
+        }
+    }
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, OfflineTransactionService } from '../service';
+
+export default class Sign extends Command {
+    static description = `It signs the transactions exported with --exportUnsigned. This command doesn't connect to the network, run it in the offline machine holding the main accounts.
+
+Only key link transactions of the nodes' main accounts, alone or in aggregate complete transactions, are signed. The transactions are decoded from their payloads and shown before signing. The main private keys are taken from the custom preset's mainPrivateKey or prompted. The signed file can be announced with the 'announce --signed' command.`;
+
+    static examples = [
+        `$ symbol-bootstrap sign --unsigned unsigned.json --signed signed.json`,
+        `$ symbol-bootstrap sign --unsigned unsigned.json --signed signed.json --customPreset main-keys.yml --password 1234`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        unsigned: flags.string({
+            description: 'The file with the unsigned transactions exported with --exportUnsigned.',
+            required: true,
+        }),
+        signed: flags.string({
+            description: 'The file the signed transactions are written to.',
+            required: true,
+        }),
+        customPreset: flags.string({
+            char: 'c',
+            description: `The custom preset with the nodes' mainPrivateKey. The main private keys are prompted when not provided. It can be provided more than once, files are merged in order.`,
+            multiple: true,
+        }),
+        maxFeeCap: flags.integer({
+            description: 'The max fee (absolute) a transaction can pay. Transactions paying more are not signed.',
+        }),
+        ready: flags.boolean({
+            description: 'If --ready is provided, the command will not ask for confirmation when signing transactions.',
+        }),
+        password: CommandUtils.passwordFlag,
+        noPassword: CommandUtils.noPasswordFlag,
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Sign);
+        BootstrapUtils.showBanner();
+        const password = flags.customPreset
+            ? await CommandUtils.resolvePassword(flags.password, flags.noPassword, CommandUtils.passwordPromptDefaultMessage, true)
+            : undefined;
+        await new OfflineTransactionService().sign({ ...flags, password });
+    }
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { LogType } from '../logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { BootstrapUtils, CommandUtils, StatusService } from '../service';
+
+export default class Status extends Command {
+    static description = `It shows the live status of each node of the target: chain height, finalized height and epoch, peer count, node roles, the main account's linked remote, VRF and voting keys and its balance compared to the min harvester and voter balances.
+
+Nodes with an exposed rest gateway are queried directly. Peer only nodes are queried through the preset's known rest gateways.`;
+
+    static examples = [`$ symbol-bootstrap status`, `$ symbol-bootstrap status --json`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        json: flags.boolean({
+            description: 'Print the status as json instead of a table.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Status);
+        if (flags.json) {
+            // The progress logs would break the json output.
+            LoggerFactory.getLogger(LogType.System).silent = true;
+        } else {
+            BootstrapUtils.showBanner();
+        }
+        const statuses = await new StatusService(flags).run();
+        console.log(flags.json ? JSON.stringify(statuses, null, 2) : StatusService.toTable(statuses));
+    }
+}
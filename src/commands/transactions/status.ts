@@ -0,0 +1,39 @@
+/*
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { AnnounceJournalService, BootstrapUtils, CommandUtils } from '../../service';
+
+export default class Status extends Command {
+    static description = `It shows the transactions recorded in the target's announce journal and their status.
+
+Transactions are recorded when announcing them with commands like 'link', 'enrollRewardProgram' or 'keys:rotate'. Running the command again resolves the pending transactions, confirmed ones are skipped and expired ones are signed again with a new deadline.`;
+
+    static examples = [`$ symbol-bootstrap transactions:status`, `$ symbol-bootstrap transactions:status --node peer-node`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        node: flags.string({
+            description: 'Only show the transactions of this node.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Status);
+        BootstrapUtils.showBanner();
+        new AnnounceJournalService(flags.target).logStatus(flags.node);
+    }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, VotingKeyBundleService } from '../../service';
+
+export default class Generate extends Command {
+    static description = `It generates a voting key bundle on a standalone machine so the voting key file is not created on the internet-facing node host.
+
+The bundle folder has the voting key file and a manifest with its public key, epochs and checksum. The file is generated natively using worker threads, the root private key is discarded once the file is created. Copy the bundle to the node's machine and import it with 'votingKeys:import'.
+
+The number of epochs must be between the network's minVotingKeyLifetime and maxVotingKeyLifetime, for example between 112 and 360 in mainnet.`;
+
+    static examples = [
+        `$ symbol-bootstrap votingKeys:generate --out bundle --startEpoch 1200 --endEpoch 1559`,
+        `$ symbol-bootstrap votingKeys:generate --out bundle --startEpoch 1200 --endEpoch 1919 --workers 4`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        out: flags.string({
+            description: 'The bundle folder to create.',
+            required: true,
+        }),
+        startEpoch: flags.integer({
+            description: 'The first epoch of the voting key.',
+            required: true,
+        }),
+        endEpoch: flags.integer({
+            description: 'The last epoch of the voting key.',
+            required: true,
+        }),
+        workers: flags.integer({
+            description: 'The number of worker threads generating the file. Defaults to the number of cpus.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Generate);
+        BootstrapUtils.showBanner();
+        await new VotingKeyBundleService().generate(flags);
+    }
+}
@@ -0,0 +1,51 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, VotingKeyBundleService } from '../../service';
+
+export default class Import extends Command {
+    static description = `It imports a voting key bundle created with 'votingKeys:generate' into a node of the target.
+
+The manifest, the file's checksum and every entry of the voting key file are validated. The file is placed in the node's voting keys directory with the next private_key_tree index and the target's addresses.yml is updated so 'link' links it.`;
+
+    static examples = [`$ symbol-bootstrap votingKeys:import --bundle bundle --node voting-node`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        password: CommandUtils.passwordFlag,
+        noPassword: CommandUtils.noPasswordFlag,
+        bundle: flags.string({
+            description: 'The bundle folder created with votingKeys:generate.',
+            required: true,
+        }),
+        node: flags.string({
+            description: 'The name of the node the voting key is imported into. Required when the target has more than one node.',
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Import);
+        BootstrapUtils.showBanner();
+        const password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        await new VotingKeyBundleService().import({ ...flags, password });
+    }
+}
@@ -0,0 +1,41 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { AnnounceService, BootstrapUtils, CommandUtils, VotingKeyListService } from '../../service';
+
+export default class List extends Command {
+    static description = `It lists the voting key files of each node with their epochs, public key, whether they are linked on chain and their estimated calendar start and expiry.
+
+The dates are estimated from the current finalization epoch, the network's votingSetGrouping and blockGenerationTargetTime. In offline mode, the preset's lastKnownNetworkEpoch is used as the current epoch and the links are not resolved.`;
+
+    static examples = [`$ symbol-bootstrap votingKeys:list`, `$ symbol-bootstrap votingKeys:list --offline`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        url: AnnounceService.flags.url,
+        useKnownRestGateways: AnnounceService.flags.useKnownRestGateways,
+        offline: flags.boolean({
+            description: `Do not connect to the network. The preset's lastKnownNetworkEpoch is used as the current epoch.`,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(List);
+        BootstrapUtils.showBanner();
+        await new VotingKeyListService(flags).run();
+    }
+}
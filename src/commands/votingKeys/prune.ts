@@ -0,0 +1,51 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { AnnounceService, BootstrapUtils, CommandUtils, VotingKeyPruneService } from '../../service';
+
+export default class Prune extends Command {
+    static description = `It unlinks the voting keys whose end epoch is behind the current finalization epoch and archives their files.
+
+The files are moved to the node's votingkeys-archive folder once the unlink transactions are confirmed, or straight away when the keys are not linked. The remaining voting key files are renamed to keep their indexes consecutive and the target's addresses.yml is updated.
+
+The server reads the voting key files by their index. The command refuses to prune the files of a running node: stop the node with 'symbol-bootstrap stop', prune its voting keys and start it again with 'symbol-bootstrap start'.`;
+
+    static examples = [
+        `$ symbol-bootstrap votingKeys:prune`,
+        `$ symbol-bootstrap votingKeys:prune --node voting-node --useKnownRestGateways`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        node: flags.string({
+            description: 'Only prune the voting keys of this node.',
+        }),
+        ...AnnounceService.flags,
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Prune);
+        BootstrapUtils.showBanner();
+        flags.password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        await new VotingKeyPruneService(flags).run();
+    }
+}
@@ -0,0 +1,45 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, KnownError, VotingKeyVerifyService } from '../../service';
+
+export default class Verify extends Command {
+    static description = `It verifies every entry of the nodes' voting key files.
+
+Each per-epoch key's signature is verified against the file's root public key, the file must cover exactly its start to end epochs and have the right size. The root public key and epochs of each file are compared with the ones in the target's addresses.yml.
+
+The node wipes the keys of the epochs it has voted on. Wiped keys are only valid from the start epoch up to the current finalization epoch, excluding the end epoch key. In offline mode, the preset's lastKnownNetworkEpoch is used as the current epoch.`;
+
+    static examples = [`$ symbol-bootstrap votingKeys:verify`, `$ symbol-bootstrap votingKeys:verify --offline`];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        offline: flags.boolean({
+            description: `Do not connect to the network. The preset's lastKnownNetworkEpoch is used as the current epoch.`,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Verify);
+        BootstrapUtils.showBanner();
+        const entries = await new VotingKeyVerifyService(flags).run();
+        const invalid = entries.filter((e) => e.errors.length);
+        if (invalid.length) {
+            throw new KnownError(`Invalid voting key files: ${invalid.map((e) => `${e.node} ${e.filename}`).join(', ')}`);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Command, flags } from '@oclif/command';
+import { BootstrapUtils, CommandUtils, WizardService } from '../service';
+
+export default class Wizard extends Command {
+    static description = `An interactive wizard that creates a commented custom preset for a new node.
+
+It asks for the network, assembly, host, friendly name, voting, harvesting, private key security mode and the keys to import. The configuration can be generated at the end. The PROMPT_ALL private key security mode is not offered as it requires importing the remote, VRF and agent keys too, use a custom preset with the config command for it. Use --answers to provide the answers from a yaml file instead of prompting them.`;
+
+    static examples = [
+        `$ symbol-bootstrap wizard`,
+        `$ symbol-bootstrap wizard -c my-node-preset.yml --password 1234`,
+        `$ symbol-bootstrap wizard --answers answers.yml --noPassword`,
+    ];
+
+    static flags = {
+        help: CommandUtils.helpFlag,
+        target: CommandUtils.targetFlag,
+        password: CommandUtils.passwordFlag,
+        noPassword: CommandUtils.noPasswordFlag,
+        customPreset: flags.string({
+            char: 'c',
+            description: 'The custom preset file to create.',
+            default: 'custom-preset.yml',
+        }),
+        presetsFolder: flags.string({
+            description: `External folder with network presets. The wizard offers the presets in this folder together with the bundled ones.`,
+        }),
+        answers: flags.string({
+            description: `Yaml file with the wizard answers (preset, assembly, host, friendlyName, voting, harvesting, privateKeySecurityMode, mainPrivateKey, transportPrivateKey and config). When provided, the wizard doesn't prompt.`,
+        }),
+    };
+
+    public async run(): Promise<void> {
+        const { flags } = this.parse(Wizard);
+        BootstrapUtils.showBanner();
+        flags.password = await CommandUtils.resolvePassword(
+            flags.password,
+            flags.noPassword,
+            CommandUtils.passwordPromptDefaultMessage,
+            true,
+        );
+        await new WizardService(this.config.root, flags).run();
+    }
+}
@@ -59,8 +59,8 @@ export interface DatabasePreset extends DockerServicePreset {
 export interface NemesisPreset {
     binDirectory: string;
     mosaics?: MosaicPreset[];
-    balances?: Record<string, number>;
-    transactions?: Record<string, string>;
+    balances?: { [address: string]: number };
+    transactions?: { [name: string]: string };
     nemesisSignerPrivateKey: string;
     transactionsDirectory: string;
 }
@@ -133,7 +133,7 @@ export interface NodeConfigPreset {
     blockCacheSize: string;
     maxNameSize: number;
     enableStatistics: boolean;
-    batchVerificationRandomSource: null;
+    batchVerificationRandomSource: string;
     maxMosaicsPerAccount: number;
     maxBannedNodes: number;
     maxBlockFutureTime: string;
@@ -298,6 +298,16 @@ export interface NodePreset extends DockerServicePreset, Partial<NodeConfigPrese
     rewardProgramAgentDockerComposeDebugMode?: boolean;
     agentUrl?: string; //calculated if not provided.
     restGatewayUrl?: string; // calculated if not provided;
+
+    // Raw catapult properties applied after rendering the server and broker configuration files.
+    properties?: PropertiesOverridesPreset;
+}
+
+/**
+ * Raw properties per file and section, like { 'config-node.properties': { node: { maxCacheSize: 123 } } }
+ */
+export interface PropertiesOverridesPreset {
+    [fileName: string]: { [section: string]: { [key: string]: string | number | boolean } };
 }
 
 export interface GatewayConfigPreset {
@@ -325,27 +335,49 @@ export interface GatewayPreset extends DockerServicePreset, Partial<GatewayConfi
     repeat?: number;
     apiNodeName: string;
     apiNodeHost: string;
+    apiNodeBrokerHost?: string;
     databaseHost: string;
     name: string;
+    description?: string;
+}
+
+export interface ExplorerFooterLinkPreset {
+    href: string;
+    text: string;
+    icon: string;
 }
 
 export interface ExplorerPreset extends DockerServicePreset {
     // At least these properties.
     repeat?: number;
     name: string;
+    defaultNode?: string;
+    namespaceName?: string;
+    restNodes?: string[];
+    footer?: { link: ExplorerFooterLinkPreset[] };
 }
 
 export interface WalletProfilePreset {
-    name: number;
+    name: string;
     // if not provided, A file will be copied over from the working dir.
     data?: any;
     location?: string;
 }
 
+export interface WalletRestNodePreset {
+    friendlyName: string;
+    url: string;
+    roles: number;
+}
+
 export interface WalletPreset extends DockerServicePreset {
     // At least these properties.
     repeat?: number;
     name: string;
+    title?: string;
+    defaultNodeUrl?: string;
+    namespaceName?: string;
+    restNodes?: WalletRestNodePreset[];
     profiles?: WalletProfilePreset[];
 }
 
@@ -374,7 +406,8 @@ export type DeepPartial<T> = {
 export interface CommonConfigPreset extends NodeConfigPreset, GatewayConfigPreset {
     version: number; // file version
     bootstrapVersion: number;
-    preset: Preset;
+    preset: Preset | string; // bundled preset or a preset in the presetsFolder.
+    presetsFolder?: string; // Optional external folder with network presets, like <presetsFolder>/<preset>/network.yml.
     assembly: string;
     assemblies?: string;
     privateKeySecurityMode?: string;
@@ -386,7 +419,10 @@ export interface CommonConfigPreset extends NodeConfigPreset, GatewayConfigPrese
     subnet?: string;
     transactionsDirectory: string;
     faucetUrl?: string;
+    explorerUrl?: string;
     nemesisSeedFolder?: string; // Optional seed folder if user provides an external seed/00000 folder.
+    mnemonic?: string; // Optional BIP39 mnemonic the keys are derived from instead of random keys. It's never stored.
+    templatesFolder?: string; // Optional folder with templates replacing or extending the bundled config templates, like <templatesFolder>/node/resources.
 
     symbolWalletImage: string;
     symbolServerImage: string;
@@ -414,16 +450,22 @@ export interface CommonConfigPreset extends NodeConfigPreset, GatewayConfigPrese
     currencyMosaicId: string;
     harvestingMosaicId: string;
     baseNamespace: string;
+    currencyName: string;
+    harvestingName: string;
+    restExtensions: string;
     rewardProgramEnrollmentAddress?: string;
+    rewardProgramCaFile?: string;
+    rewardProgramControllerApiUrl?: string;
     networkType: NetworkType;
     votingKeyDesiredLifetime: number;
     votingKeyDesiredFutureLifetime: number; // How in the future voting key files need to be generated. By default, 1 months before expiring..
     useExperimentalNativeVotingKeyGeneration?: boolean;
     lastKnownNetworkEpoch: number;
     autoUpdateVotingKeys: boolean;
+    voting?: boolean; // default value for nodes that don't define it.
     //Nested Objects
     knownRestGateways?: string[];
-    inflation?: Record<string, number>;
+    inflation?: { [startingAtHeight: string]: number };
     knownPeers?: Record<NodeType, PeerInfo[]>;
 }
 
@@ -436,10 +478,16 @@ export interface ConfigPreset extends CommonConfigPreset {
     explorers?: ExplorerPreset[];
     wallets?: WalletPreset[];
     faucets?: FaucetPreset[];
+    overriddenTemplates?: Record<string, string>; // The overridden templates and the hash of their bundled version, used when upgrading.
+}
+
+export interface CustomNemesisPreset extends Partial<Omit<NemesisPreset, 'mosaics'>> {
+    mosaics?: Partial<MosaicPreset>[];
 }
 
 export interface CustomPreset extends Partial<CommonConfigPreset> {
-    nemesis?: DeepPartial<NemesisPreset>;
+    extends?: string[]; // custom preset files merged before this one, relative to this file.
+    nemesis?: CustomNemesisPreset;
     databases?: Partial<DatabasePreset>[];
     nodes?: Partial<NodePreset>[];
     gateways?: Partial<GatewayPreset>[];
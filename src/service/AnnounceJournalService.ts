@@ -0,0 +1,216 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { existsSync } from 'fs';
+import { TransactionGroupEnum } from 'symbol-openapi-typescript-fetch-client';
+import {
+    IListener,
+    RepositoryFactory,
+    SignedTransaction,
+    TransactionMapping,
+    TransactionService,
+    TransactionStatus,
+    TransactionType,
+} from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { BootstrapUtils } from './BootstrapUtils';
+
+export enum JournalTransactionStatus {
+    Pending = 'pending', // announced but not confirmed yet.
+    Partial = 'partial', // aggregate bonded waiting for cosignatures.
+    Confirmed = 'confirmed',
+    Failed = 'failed',
+    Expired = 'expired',
+}
+
+/**
+ * A signed transaction recorded before it's announced.
+ */
+export interface JournalTransaction {
+    node: string;
+    description: string;
+    hash: string;
+    signerPublicKey: string;
+    payload: string;
+    deadline: string;
+    status: JournalTransactionStatus;
+    bonded?: boolean;
+    updated: string;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It keeps the journal of the announced transactions in the target folder so an interrupted announce can be resumed.
+ */
+export class AnnounceJournalService {
+    constructor(private readonly target: string) {}
+
+    public getJournalLocation(): string {
+        return BootstrapUtils.getTargetFolder(this.target, false, 'transactions', 'announce-journal.yml');
+    }
+
+    public load(): JournalTransaction[] {
+        const location = this.getJournalLocation();
+        if (!existsSync(location)) {
+            return [];
+        }
+        return BootstrapUtils.loadYaml(location, false).transactions || [];
+    }
+
+    /**
+     * It logs the recorded transactions, optionally only the ones of a node.
+     *
+     * @param node the optional node name.
+     */
+    public logStatus(node?: string): JournalTransaction[] {
+        const transactions = this.load().filter((t) => !node || t.node === node);
+        if (!transactions.length) {
+            logger.info(`There are no announced transactions in ${this.getJournalLocation()}${node ? ` for node ${node}` : ''}.`);
+            return transactions;
+        }
+        transactions.forEach((t) => {
+            logger.info(`Node ${t.node} - ${t.description} - Hash: ${t.hash} - Status: ${t.status} - Updated: ${t.updated}`);
+        });
+        return transactions;
+    }
+
+    /**
+     * It records a signed transaction as pending before announcing it.
+     *
+     * @param node the node name.
+     * @param description the transaction description.
+     * @param signedTransaction the signed transaction.
+     * @param deadline the transaction's deadline.
+     * @param bonded if it's an aggregate bonded transaction.
+     */
+    public async record(
+        node: string,
+        description: string,
+        signedTransaction: SignedTransaction,
+        deadline: Date,
+        bonded = false,
+    ): Promise<void> {
+        const transactions = this.load().filter((t) => t.hash !== signedTransaction.hash);
+        transactions.push({
+            node,
+            description,
+            hash: signedTransaction.hash,
+            signerPublicKey: signedTransaction.signerPublicKey,
+            payload: signedTransaction.payload,
+            deadline: deadline.toISOString(),
+            status: JournalTransactionStatus.Pending,
+            ...(bonded ? { bonded } : {}),
+            updated: new Date().toISOString(),
+        });
+        await this.save(transactions);
+    }
+
+    /**
+     * It updates the status of a recorded transaction. Confirmed transactions are final.
+     *
+     * @param hash the transaction hash.
+     * @param status the new status.
+     */
+    public async updateStatus(hash: string, status: JournalTransactionStatus): Promise<void> {
+        await this.save(
+            this.load().map((t) =>
+                t.hash === hash && t.status !== JournalTransactionStatus.Confirmed
+                    ? { ...t, status, updated: new Date().toISOString() }
+                    : t,
+            ),
+        );
+    }
+
+    /**
+     * It resolves the node's pending and partial transactions of a previous run. Transactions that are still valid are announced again
+     * and expired ones are marked as expired so the caller creates and signs them again with a new deadline. It returns the
+     * aggregate bonded transactions still waiting for cosignatures.
+     *
+     * @param node the node name.
+     * @param repositoryFactory the repository factory.
+     * @param transactionService the transaction service.
+     * @param listener the open listener.
+     */
+    public async resume(
+        node: string,
+        repositoryFactory: RepositoryFactory,
+        transactionService: TransactionService,
+        listener: IListener,
+    ): Promise<JournalTransaction[]> {
+        const unfinished = this.load().filter(
+            (t) => t.node === node && (t.status === JournalTransactionStatus.Pending || t.status === JournalTransactionStatus.Partial),
+        );
+        const statusRepository = repositoryFactory.createTransactionStatusRepository();
+        const networkType = await repositoryFactory.getNetworkType().toPromise();
+        const waiting: JournalTransaction[] = [];
+        for (const transaction of unfinished) {
+            const description = `${transaction.description} - Hash: ${transaction.hash}`;
+            let networkStatus: TransactionStatus | undefined;
+            try {
+                networkStatus = await statusRepository.getTransactionStatus(transaction.hash).toPromise();
+            } catch (e) {
+                networkStatus = undefined;
+            }
+            if (networkStatus?.group === TransactionGroupEnum.Confirmed) {
+                logger.info(`${description} of node ${node} has already been confirmed. Skipping...`);
+                await this.updateStatus(transaction.hash, JournalTransactionStatus.Confirmed);
+            } else if (networkStatus?.group === TransactionGroupEnum.Failed) {
+                logger.warn(`${description} of node ${node} has failed with ${networkStatus.code}.`);
+                await this.updateStatus(transaction.hash, JournalTransactionStatus.Failed);
+            } else if (networkStatus?.group === TransactionGroupEnum.Partial) {
+                logger.info(`${description} of node ${node} is still waiting for cosignatures.`);
+                await this.updateStatus(transaction.hash, JournalTransactionStatus.Partial);
+                waiting.push(transaction);
+            } else if (Date.parse(transaction.deadline) < Date.now()) {
+                logger.warn(`${description} of node ${node} has expired. It will be signed again with a new deadline.`);
+                await this.updateStatus(transaction.hash, JournalTransactionStatus.Expired);
+            } else {
+                const type: TransactionType = TransactionMapping.createFromPayload(transaction.payload).type;
+                const signedTransaction = new SignedTransaction(
+                    transaction.payload,
+                    transaction.hash,
+                    transaction.signerPublicKey,
+                    type,
+                    networkType,
+                );
+                try {
+                    logger.info(`Announcing again ${description} of node ${node}`);
+                    if (transaction.bonded) {
+                        await transactionService.announceAggregateBonded(signedTransaction, listener).toPromise();
+                        await this.updateStatus(transaction.hash, JournalTransactionStatus.Partial);
+                        logger.info(`${description} has been announced`);
+                        waiting.push(transaction);
+                    } else {
+                        await transactionService.announce(signedTransaction, listener).toPromise();
+                        await this.updateStatus(transaction.hash, JournalTransactionStatus.Confirmed);
+                        logger.info(`${description} has been confirmed`);
+                    }
+                } catch (e) {
+                    logger.error(`${description} of node ${node} failed!! ${e.message}`);
+                    await this.updateStatus(transaction.hash, JournalTransactionStatus.Failed);
+                }
+            }
+        }
+        return waiting;
+    }
+
+    private async save(transactions: JournalTransaction[]): Promise<void> {
+        await BootstrapUtils.mkdir(BootstrapUtils.getTargetFolder(this.target, false, 'transactions'));
+        await BootstrapUtils.writeYaml(this.getJournalLocation(), { transactions }, undefined);
+    }
+}
@@ -30,6 +30,7 @@ import {
     RepositoryFactory,
     SignedTransaction,
     Transaction,
+    TransactionFees,
     TransactionService,
     UInt64,
 } from 'symbol-sdk';
@@ -37,8 +38,12 @@ import { LogType } from '../logger';
 import Logger from '../logger/Logger';
 import LoggerFactory from '../logger/LoggerFactory';
 import { Addresses, ConfigPreset, NodeAccount, NodePreset } from '../model';
+import { AnnounceJournalService, JournalTransactionStatus } from './AnnounceJournalService';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
 import { CommandUtils } from './CommandUtils';
 import { KeyName } from './ConfigService';
+import { CosignService } from './CosignService';
+import { OfflineTransaction, OfflineTransactionService } from './OfflineTransactionService';
 import { RemoteNodeService } from './RemoteNodeService';
 
 const logger: Logger = LoggerFactory.getLogger(LogType.System);
@@ -55,11 +60,29 @@ export interface TransactionFactoryParams {
     latestFinalizedBlockEpoch: number;
 }
 
+export interface AnnounceParams {
+    target: string;
+    url: string;
+    maxFee?: number;
+    feeStrategy?: string;
+    maxFeeCap?: number;
+    useKnownRestGateways: boolean;
+    ready?: boolean;
+    exportUnsigned?: string;
+    aggregateBonded?: boolean;
+    bondedDeadline?: number;
+    aggregate?: boolean;
+}
+
 export interface TransactionFactory {
     createTransactions(params: TransactionFactoryParams): Promise<Transaction[]>;
 }
 
 export class AnnounceService {
+    // The cosigners have up to the network's max hash lock duration to cosign an aggregate bonded transaction.
+    public static readonly maxBondedDeadlineHours = 48;
+    public static readonly defaultBondedDeadlineHours = 24;
+
     private static onProcessListener = () => {
         process.on('SIGINT', () => {
             process.exit(400);
@@ -83,29 +106,126 @@ export class AnnounceService {
         maxFee: flags.integer({
             description: 'the max fee used when announcing (absolute). The node min multiplier will be used if it is not provided.',
         }),
+        feeStrategy: flags.string({
+            description: `How the fee multiplier is resolved from the network's transaction fees of the recent blocks: min, average, median, high or a fixed fee multiplier. The fee is calculated from the size of each transaction. It cannot be used with --maxFee.`,
+        }),
+        maxFeeCap: flags.integer({
+            description: 'the max fee (absolute) a transaction can pay when using --feeStrategy. Higher fees are reduced to this cap.',
+        }),
         customPreset: flags.string({
             char: 'c',
-            description: `This command uses the encrypted addresses.yml to resolve the main private key. If the main private is only stored in the custom preset, you can provide it using this param. Otherwise, the command may ask for it when required.`,
+            description: `This command uses the encrypted addresses.yml to resolve the main private key. If the main private is only stored in the custom preset, you can provide it using this param. Otherwise, the command may ask for it when required. It can be provided more than once, files are merged in order.`,
             required: false,
+            multiple: true,
+        }),
+    };
+    public static multisigFlags = {
+        aggregateBonded: flags.boolean({
+            description: `When the node's main account is multisig, announce the transactions in an aggregate bonded transaction with its hash lock. Only the key of the initiating cosigner is prompted, the other cosigners sign it later with the 'cosign' command.`,
+        }),
+        bondedDeadline: flags.integer({
+            description: `The hours the other cosigners have to cosign the aggregate bonded transaction, up to ${AnnounceService.maxBondedDeadlineHours}. The hash lock lasts until the deadline.`,
+            default: AnnounceService.defaultBondedDeadlineHours,
+        }),
+    };
+    public static aggregateFlags = {
+        aggregate: flags.boolean({
+            description: `Wrap the transactions of each node into one aggregate complete transaction signed by the main account, so they are confirmed or rejected together. By default, they are announced one by one.`,
+            default: false,
         }),
     };
+    public static exportFlags = {
+        exportUnsigned: flags.string({
+            description: `It writes the unsigned transactions to this json file instead of signing and announcing them. Sign the file offline with the 'sign' command and announce it with 'announce --signed'. The main private keys are not required.`,
+        }),
+    };
+    /**
+     * It resolves the hash lock duration in blocks for an aggregate bonded deadline. Blocks can be faster than the target time,
+     * the duration has a margin limited by the network's max hash lock duration.
+     *
+     * @param presetData the network preset.
+     * @param deadlineHours the aggregate bonded deadline in hours.
+     */
+    public static getHashLockDuration(presetData: ConfigPreset, deadlineHours: number): UInt64 {
+        const blockSeconds = BootstrapUtils.toSeconds(presetData.blockGenerationTargetTime);
+        const maxBlocks = Math.floor(BootstrapUtils.toSeconds(presetData.maxHashLockDuration) / blockSeconds);
+        return UInt64.fromUint(Math.min(maxBlocks, Math.ceil((deadlineHours * 3600 * 1.25) / blockSeconds)));
+    }
+
+    /**
+     * It resolves the transactions to announce for a node. They are wrapped into one aggregate complete transaction signed by the
+     * main account only when aggregate is true.
+     *
+     * @param transactions the node's transactions.
+     * @param mainAccount the node's main account.
+     * @param aggregate if the transactions are wrapped into an aggregate complete transaction.
+     * @param deadline the aggregate transaction deadline.
+     * @param networkType the network type.
+     * @param maxFee the aggregate transaction max fee.
+     */
+    public static createNodeTransactions(
+        transactions: Transaction[],
+        mainAccount: PublicAccount,
+        aggregate: boolean | undefined,
+        deadline: Deadline,
+        networkType: NetworkType,
+        maxFee: UInt64,
+    ): Transaction[] {
+        if (transactions.length == 1 || aggregate !== true) {
+            return transactions;
+        }
+        return [
+            AggregateTransaction.createComplete(
+                deadline,
+                transactions.map((t) => t.toAggregate(mainAccount)),
+                networkType,
+                [],
+                maxFee,
+            ),
+        ];
+    }
+
+    /**
+     * It announces the transactions of each node. It returns the names of the nodes whose transactions have been confirmed.
+     *
+     * When exportUnsigned is provided, the transactions are not signed but written to that file to be signed offline.
+     * When aggregateBonded is provided, the transactions of multisig main accounts are announced as aggregate bonded transactions
+     * signed by one cosigner. The other cosigners sign them later with the cosign command.
+     * When aggregate is provided, the transactions of each node are wrapped into one aggregate complete transaction.
+     *
+     * Announced transactions are recorded in the target's announce journal. Pending transactions of a previous run are resolved
+     * before creating new ones, confirmed transactions are skipped and expired ones are created again with a new deadline.
+     */
     public async announce(
-        providedUrl: string,
-        providedMaxFee: number | undefined,
-        useKnownRestGateways: boolean,
-        ready: boolean | undefined,
-        target: string,
+        params: AnnounceParams,
         presetData: ConfigPreset,
         addresses: Addresses,
         transactionFactory: TransactionFactory,
         tokenAmount = 'some',
-    ): Promise<void> {
+    ): Promise<string[]> {
+        const {
+            maxFee: providedMaxFee,
+            maxFeeCap,
+            useKnownRestGateways,
+            ready,
+            target,
+            exportUnsigned,
+            aggregateBonded,
+            aggregate,
+        } = params;
+        if (providedMaxFee && params.feeStrategy) {
+            throw new KnownError('--maxFee and --feeStrategy cannot be used together.');
+        }
+        const bondedDeadlineHours = params.bondedDeadline || AnnounceService.defaultBondedDeadlineHours;
+        if (bondedDeadlineHours < 1 || bondedDeadlineHours > AnnounceService.maxBondedDeadlineHours) {
+            throw new KnownError(`--bondedDeadline must be between 1 and ${AnnounceService.maxBondedDeadlineHours} hours.`);
+        }
         AnnounceService.onProcessListener();
         if (!presetData.nodes || !presetData.nodes?.length) {
             logger.info(`There are no transactions to announce...`);
-            return;
+            return [];
         }
-        const url = providedUrl.replace(/\/$/, '');
+        const url = params.url.replace(/\/$/, '');
         const urls = (useKnownRestGateways && presetData.knownRestGateways) || [url];
         const repositoryInfo = await new RemoteNodeService().getBestRepositoryInfo(urls);
         const repositoryFactory = repositoryInfo.repositoryFactory;
@@ -118,15 +238,28 @@ export class AnnounceService {
         const faucetUrl = presetData.faucetUrl;
         const currency = (await repositoryFactory.getCurrencies().toPromise()).currency;
         const currencyMosaicId = currency.mosaicId;
-        const deadline = Deadline.create(epochAdjustment);
-        const minFeeMultiplier = (await repositoryFactory.createNetworkRepository().getTransactionFees().toPromise()).minFeeMultiplier;
+        const deadline = exportUnsigned
+            ? Deadline.create(epochAdjustment, OfflineTransactionService.deadlineHours)
+            : Deadline.create(epochAdjustment);
+        const deadlineDate = new Date(deadline.adjustedValue + epochAdjustment * 1000);
+        const bondedDeadline = Deadline.create(epochAdjustment, bondedDeadlineHours);
+        const bondedDeadlineDate = new Date(bondedDeadline.adjustedValue + epochAdjustment * 1000);
+        const journal = new AnnounceJournalService(target);
+        const transactionFees = await repositoryFactory.createNetworkRepository().getTransactionFees().toPromise();
+        const feeStrategy = params.feeStrategy || 'min';
+        const feeMultiplier = AnnounceService.resolveFeeMultiplier(feeStrategy, transactionFees);
         const latestFinalizedBlockEpoch = (await repositoryFactory.createChainRepository().getChainInfo().toPromise()).latestFinalizedBlock
             .finalizationEpoch;
         if (providedMaxFee) {
             logger.info(`MaxFee is ${providedMaxFee / Math.pow(10, currency.divisibility)}`);
         } else {
-            logger.info(`Node's minFeeMultiplier is ${minFeeMultiplier}`);
+            logger.info(
+                `Fee strategy is ${feeStrategy}, fee multiplier is ${feeMultiplier}. Node's minFeeMultiplier is ${transactionFees.minFeeMultiplier}`,
+            );
         }
+        const feeDescription = providedMaxFee ? 'fixed max fee' : `fee strategy ${feeStrategy}, fee multiplier ${feeMultiplier}`;
+        const setMaxFee = <T extends Transaction>(transaction: T, requiredCosignatures = 0): T =>
+            providedMaxFee ? transaction : AnnounceService.setMaxFee(transaction, feeMultiplier, maxFeeCap, requiredCosignatures);
 
         const generationHash = await repositoryFactory.getGenerationHash().toPromise();
         if (generationHash?.toUpperCase() !== presetData.nemesisGenerationHashSeed?.toUpperCase()) {
@@ -135,6 +268,8 @@ export class AnnounceService {
             );
         }
 
+        const confirmedNodes: string[] = [];
+        const unsignedTransactions: OfflineTransaction[] = [];
         for (const [index, nodeAccount] of (addresses.nodes || []).entries()) {
             if (!nodeAccount || !nodeAccount.main) {
                 throw new Error('CA/Main account is required!');
@@ -144,6 +279,13 @@ export class AnnounceService {
             const noFundsMessage = faucetUrl
                 ? `Does your node signing address have any network coin? Send ${tokenAmount} tokens to ${mainAccount.address.plain()} via ${faucetUrl}/?recipient=${mainAccount.address.plain()}`
                 : `Does your node signing address have any network coin? Send ${tokenAmount} tokens to ${mainAccount.address.plain()} .`;
+            if (!exportUnsigned) {
+                const waiting = await journal.resume(nodeAccount.name, repositoryFactory, transactionService, listener);
+                if (waiting.length) {
+                    logger.info(`Node ${nodeAccount.name} has aggregate bonded transactions waiting for cosignatures. Ignoring!`);
+                    continue;
+                }
+            }
             const mainAccountInfo = await this.getAccountInfo(repositoryFactory, mainAccount.address);
 
             if (!mainAccountInfo) {
@@ -175,10 +317,10 @@ export class AnnounceService {
                 continue;
             }
 
-            const getTransactionDescription = (transaction: Transaction, signedTransaction: SignedTransaction): string => {
-                return `${transaction.constructor.name} - Hash: ${signedTransaction.hash} - MaxFee ${
-                    transaction.maxFee.compact() / Math.pow(10, currency.divisibility)
-                }`;
+            const getTransactionDescription = (transaction: Transaction, signedTransaction?: SignedTransaction): string => {
+                const hash = signedTransaction ? ` - Hash: ${signedTransaction.hash}` : '';
+                const maxFee = transaction.maxFee.compact() / Math.pow(10, currency.divisibility);
+                return `${transaction.constructor.name}${hash} - MaxFee ${maxFee} (${feeDescription})`;
             };
 
             const shouldAnnounce = async (transaction: Transaction, signedTransaction: SignedTransaction): Promise<boolean> => {
@@ -221,6 +363,10 @@ export class AnnounceService {
                 );
             };
 
+            if (multisigAccountInfo && exportUnsigned) {
+                logger.warn(`Node ${nodeAccount.name} main account is a multisig account. Its transactions cannot be exported, ignoring!`);
+                continue;
+            }
             if (multisigAccountInfo) {
                 logger.info(
                     `The node's main account is a multig account with Address: ${
@@ -231,10 +377,15 @@ export class AnnounceService {
                             ', ',
                         )}. The tool will ask for the cosigners provide keys in order to announce the transactions. These private keys are not stored anywhere!`,
                 );
+                if (aggregateBonded) {
+                    logger.info(
+                        `Only the cosigner initiating the aggregate bonded transaction is required. The other cosigners can sign it later with the 'cosign' command.`,
+                    );
+                }
                 const cosigners = await this.promptAccounts(
                     networkType,
                     multisigAccountInfo.cosignatoryAddresses,
-                    multisigAccountInfo.minApproval,
+                    aggregateBonded ? 1 : multisigAccountInfo.minApproval,
                 );
                 if (!cosigners.length) {
                     logger.info('No cosigner has been provided, ignoring!');
@@ -254,9 +405,7 @@ export class AnnounceService {
                         [],
                         defaultMaxFee,
                     );
-                    if (!providedMaxFee) {
-                        aggregateTransaction = aggregateTransaction.setMaxFeeForAggregate(minFeeMultiplier, cosigners.length - 1);
-                    }
+                    aggregateTransaction = setMaxFee(aggregateTransaction, cosigners.length - 1);
                     const signedAggregateTransaction = bestCosigner.signTransactionWithCosignatories(
                         aggregateTransaction,
                         cosigners.filter((a) => a !== bestCosigner),
@@ -265,11 +414,20 @@ export class AnnounceService {
                     if (!(await shouldAnnounce(aggregateTransaction, signedAggregateTransaction))) {
                         continue;
                     }
+                    await journal.record(
+                        nodeAccount.name,
+                        getTransactionDescription(aggregateTransaction),
+                        signedAggregateTransaction,
+                        deadlineDate,
+                    );
                     try {
                         logger.info(`Announcing ${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)}`);
                         await transactionService.announce(signedAggregateTransaction, listener).toPromise();
                         logger.info(`${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)} has been confirmed`);
+                        await journal.updateStatus(signedAggregateTransaction.hash, JournalTransactionStatus.Confirmed);
+                        confirmedNodes.push(nodeAccount.name);
                     } catch (e) {
+                        await journal.updateStatus(signedAggregateTransaction.hash, JournalTransactionStatus.Failed);
                         const message =
                             `Aggregate Complete Transaction ${signedAggregateTransaction.type} ${
                                 signedAggregateTransaction.hash
@@ -278,15 +436,14 @@ export class AnnounceService {
                     }
                 } else {
                     let aggregateTransaction = AggregateTransaction.createBonded(
-                        deadline,
+                        bondedDeadline,
                         transactions.map((t) => t.toAggregate(mainAccount)),
                         networkType,
                         [],
                         defaultMaxFee,
                     );
-                    if (!providedMaxFee) {
-                        aggregateTransaction = aggregateTransaction.setMaxFeeForAggregate(minFeeMultiplier, cosigners.length - 1);
-                    }
+                    // The fee covers the cosignatures added later.
+                    aggregateTransaction = setMaxFee(aggregateTransaction, multisigAccountInfo.minApproval - 1);
                     const signedAggregateTransaction = bestCosigner.signTransactionWithCosignatories(
                         aggregateTransaction,
                         cosigners.filter((a) => a !== bestCosigner),
@@ -295,14 +452,12 @@ export class AnnounceService {
                     let lockFundsTransaction: Transaction = LockFundsTransaction.create(
                         deadline,
                         currency.createRelative(10),
-                        UInt64.fromUint(1000),
+                        AnnounceService.getHashLockDuration(presetData, bondedDeadlineHours),
                         signedAggregateTransaction,
                         networkType,
                         defaultMaxFee,
                     );
-                    if (!providedMaxFee) {
-                        lockFundsTransaction = lockFundsTransaction.setMaxFee(minFeeMultiplier);
-                    }
+                    lockFundsTransaction = setMaxFee(lockFundsTransaction);
                     const signedLockFundsTransaction = bestCosigner.sign(lockFundsTransaction, generationHash);
                     if (!(await shouldAnnounce(lockFundsTransaction, signedLockFundsTransaction))) {
                         continue;
@@ -311,17 +466,38 @@ export class AnnounceService {
                         continue;
                     }
 
+                    await journal.record(
+                        nodeAccount.name,
+                        getTransactionDescription(lockFundsTransaction),
+                        signedLockFundsTransaction,
+                        deadlineDate,
+                    );
+                    await journal.record(
+                        nodeAccount.name,
+                        getTransactionDescription(aggregateTransaction),
+                        signedAggregateTransaction,
+                        bondedDeadlineDate,
+                        true,
+                    );
                     try {
                         logger.info(`Announcing ${getTransactionDescription(lockFundsTransaction, signedLockFundsTransaction)}`);
                         await transactionService.announce(signedLockFundsTransaction, listener).toPromise();
                         logger.info(`${getTransactionDescription(lockFundsTransaction, signedLockFundsTransaction)} has been confirmed`);
+                        await journal.updateStatus(signedLockFundsTransaction.hash, JournalTransactionStatus.Confirmed);
 
                         logger.info(`Announcing Bonded ${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)}`);
                         await transactionService.announceAggregateBonded(signedAggregateTransaction, listener).toPromise();
                         logger.info(`${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)} has been announced`);
+                        await journal.updateStatus(signedAggregateTransaction.hash, JournalTransactionStatus.Partial);
 
-                        logger.info('Aggregate Bonded Transaction has been confirmed! Your cosigners would need to cosign!');
+                        const missingCosignatures = CosignService.getMissingCosignatures(
+                            multisigAccountInfo,
+                            cosigners.map((c) => c.address),
+                        );
+                        logger.info(CosignService.describeMissingCosignatures(signedAggregateTransaction.hash, missingCosignatures));
                     } catch (e) {
+                        await journal.updateStatus(signedLockFundsTransaction.hash, JournalTransactionStatus.Failed);
+                        await journal.updateStatus(signedAggregateTransaction.hash, JournalTransactionStatus.Failed);
                         const message =
                             `Aggregate Bonded Transaction ${signedAggregateTransaction.type} ${
                                 signedAggregateTransaction.hash
@@ -330,58 +506,134 @@ export class AnnounceService {
                     }
                 }
             } else {
+                const nodeTransactions = AnnounceService.createNodeTransactions(
+                    transactions,
+                    mainAccount,
+                    aggregate,
+                    deadline,
+                    networkType,
+                    defaultMaxFee,
+                ).map((t) => setMaxFee(t));
+                if (exportUnsigned) {
+                    nodeTransactions.forEach((transaction) => {
+                        logger.info(`Exporting ${getTransactionDescription(transaction)} for node ${nodeAccount.name}`);
+                        unsignedTransactions.push({
+                            node: nodeAccount.name,
+                            signerPublicKey: mainAccount.publicKey,
+                            description: getTransactionDescription(transaction),
+                            payload: transaction.serialize(),
+                        });
+                    });
+                    continue;
+                }
                 const signerAccount = await resolveMainAccount();
-                if (transactions.length == 1) {
-                    let transaction = transactions[0];
-                    if (!providedMaxFee) {
-                        transaction = transaction.setMaxFee(minFeeMultiplier);
-                    }
-                    const signedTransaction = signerAccount.sign(transactions[0], generationHash);
+                let confirmed = true;
+                for (const transaction of nodeTransactions) {
+                    const signedTransaction = signerAccount.sign(transaction, generationHash);
                     if (!(await shouldAnnounce(transaction, signedTransaction))) {
-                        continue;
+                        confirmed = false;
+                        break;
                     }
+                    await journal.record(nodeAccount.name, getTransactionDescription(transaction), signedTransaction, deadlineDate);
                     try {
                         logger.info(`Announcing ${getTransactionDescription(transaction, signedTransaction)}`);
                         await transactionService.announce(signedTransaction, listener).toPromise();
                         logger.info(`${getTransactionDescription(transaction, signedTransaction)} has been confirmed`);
+                        await journal.updateStatus(signedTransaction.hash, JournalTransactionStatus.Confirmed);
                     } catch (e) {
+                        await journal.updateStatus(signedTransaction.hash, JournalTransactionStatus.Failed);
                         const message =
-                            `Simple Transaction ${signedTransaction.type} ${
-                                signedTransaction.hash
-                            } - signer ${signedTransaction.getSignerAddress().plain()} failed!! ` + e.message;
-                        logger.error(message);
-                    }
-                } else {
-                    let aggregateTransaction = AggregateTransaction.createComplete(
-                        deadline,
-                        transactions.map((t) => t.toAggregate(mainAccount)),
-                        networkType,
-                        [],
-                        defaultMaxFee,
-                    );
-                    if (!providedMaxFee) {
-                        aggregateTransaction = aggregateTransaction.setMaxFeeForAggregate(minFeeMultiplier, 0);
-                    }
-                    const signedAggregateTransaction = signerAccount.sign(aggregateTransaction, generationHash);
-                    if (!(await shouldAnnounce(aggregateTransaction, signedAggregateTransaction))) {
-                        continue;
-                    }
-                    try {
-                        logger.info(`Announcing ${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)}`);
-                        await transactionService.announce(signedAggregateTransaction, listener).toPromise();
-                        logger.info(`${getTransactionDescription(aggregateTransaction, signedAggregateTransaction)} has been confirmed`);
-                    } catch (e) {
-                        const message =
-                            `Aggregate Complete Transaction ${signedAggregateTransaction.type} ${
-                                signedAggregateTransaction.hash
-                            } - signer ${signedAggregateTransaction.getSignerAddress().plain()} failed!! ` + e.message;
+                            `${transaction instanceof AggregateTransaction ? 'Aggregate Complete' : 'Simple'} Transaction ${
+                                signedTransaction.type
+                            } ${signedTransaction.hash} - signer ${signedTransaction.getSignerAddress().plain()} failed!! ` + e.message;
                         logger.error(message);
+                        // The following transactions may depend on the failed one.
+                        confirmed = false;
+                        break;
                     }
                 }
+                if (confirmed) {
+                    confirmedNodes.push(nodeAccount.name);
+                }
             }
         }
 
         listener.close();
+        if (exportUnsigned) {
+            if (!unsignedTransactions.length) {
+                logger.info(`There are no transactions to export...`);
+                return [];
+            }
+            await OfflineTransactionService.writeTransactionsFile(exportUnsigned, {
+                version: OfflineTransactionService.fileVersion,
+                networkType,
+                generationHash,
+                epochAdjustment,
+                knownRestGateways: presetData.knownRestGateways,
+                transactions: unsignedTransactions,
+            });
+            logger.info(
+                `${unsignedTransactions.length} unsigned transactions have been exported to ${exportUnsigned}. Sign them offline with 'symbol-bootstrap sign --unsigned ${exportUnsigned} --signed signed.json' and announce them with 'symbol-bootstrap announce --signed signed.json'.`,
+            );
+        }
+        return confirmedNodes;
+    }
+
+    /**
+     * It resolves the fee multiplier of a fee strategy from the network's transaction fees of the recent blocks.
+     *
+     * @param feeStrategy min, average, median, high or a fixed fee multiplier.
+     * @param transactionFees the network's transaction fees.
+     */
+    public static resolveFeeMultiplier(feeStrategy: string, transactionFees: TransactionFees): number {
+        if (/^\d+$/.test(feeStrategy)) {
+            return parseInt(feeStrategy, 10);
+        }
+        const multipliers: Record<string, number> = {
+            min: transactionFees.minFeeMultiplier,
+            average: transactionFees.averageFeeMultiplier,
+            median: transactionFees.medianFeeMultiplier,
+            high: transactionFees.highestFeeMultiplier,
+        };
+        if (multipliers[feeStrategy] === undefined) {
+            throw new KnownError(
+                `Invalid fee strategy ${feeStrategy}. Possible values are: ${Object.keys(multipliers).join(
+                    ', ',
+                )} or a fixed fee multiplier.`,
+            );
+        }
+        // The recent blocks may have no transactions, the node rejects fees under its min fee multiplier.
+        return Math.max(multipliers[feeStrategy], transactionFees.minFeeMultiplier);
+    }
+
+    /**
+     * It sets the max fee of a transaction according to its size. Aggregate fees include the required cosignatures.
+     *
+     * @param transaction the transaction.
+     * @param feeMultiplier the fee multiplier.
+     * @param maxFeeCap the optional max fee (absolute) a transaction can pay.
+     * @param requiredCosignatures the cosignatures an aggregate transaction will have.
+     */
+    public static setMaxFee<T extends Transaction>(
+        transaction: T,
+        feeMultiplier: number,
+        maxFeeCap: number | undefined,
+        requiredCosignatures = 0,
+    ): T {
+        const withFee = (multiplier: number): T =>
+            (transaction instanceof AggregateTransaction
+                ? transaction.setMaxFeeForAggregate(multiplier, requiredCosignatures)
+                : transaction.setMaxFee(multiplier)) as T;
+        const feeTransaction = withFee(feeMultiplier);
+        const maxFee = feeTransaction.maxFee.compact();
+        if (!maxFeeCap || maxFee <= maxFeeCap) {
+            return feeTransaction;
+        }
+        const cappedMultiplier = Math.floor((feeMultiplier * maxFeeCap) / maxFee);
+        logger.warn(
+            `${transaction.constructor.name} max fee ${maxFee} is over the max fee cap ${maxFeeCap}. Fee multiplier ${cappedMultiplier} is used instead of ${feeMultiplier}.`,
+        );
+        return withFee(cappedMultiplier);
     }
 
     private async promptAccounts(networkType: NetworkType, expectedAddresses: Address[], minApproval: number): Promise<Account[]> {
@@ -418,7 +670,7 @@ export class AnnounceService {
                         return providedAccounts;
                     }
                     if (providedAccounts.length == minApproval) {
-                        console.log(`Min Approval of ${minApproval} has been reached. Aggregate Complete transaction can be created.`);
+                        console.log(`Min Approval of ${minApproval} has been reached.`);
                         return providedAccounts;
                     }
                     const responses = await prompt([
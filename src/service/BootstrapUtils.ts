@@ -38,6 +38,7 @@ import * as util from 'util';
 import { LogType } from '../logger';
 import Logger from '../logger/Logger';
 import LoggerFactory from '../logger/LoggerFactory';
+import { PropertiesOverridesPreset } from '../model';
 import { CryptoUtils } from './CryptoUtils';
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const version = require('../../package.json').version;
@@ -331,14 +332,37 @@ export class BootstrapUtils {
         });
     }
 
+    /**
+     * It returns the bundled templates folder and, if provided, the same folder in the custom templates folder.
+     *
+     * @param root the bootstrap root folder.
+     * @param templatesFolder the optional custom templates folder, like <templatesFolder>/node/resources.
+     * @param name the templates folder name, like node or rest-gateway.
+     */
+    public static getTemplatesFolders(root: string, templatesFolder: string | undefined, name: string): string[] {
+        const bundledFolder = join(root, 'config', name);
+        if (!templatesFolder || !existsSync(join(templatesFolder, name))) {
+            return [bundledFolder];
+        }
+        return [bundledFolder, join(templatesFolder, name)];
+    }
+
     public static async generateConfiguration(
         // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
         templateContext: any,
-        copyFrom: string,
+        copyFrom: string | string[],
         copyTo: string,
         excludeFiles: string[] = [],
         includeFiles: string[] = [],
+        propertiesOverrides: PropertiesOverridesPreset = {},
     ): Promise<void> {
+        if (Array.isArray(copyFrom)) {
+            // The later folders replace or extend the files of the previous ones.
+            for (const folder of copyFrom) {
+                await this.generateConfiguration(templateContext, folder, copyTo, excludeFiles, includeFiles, propertiesOverrides);
+            }
+            return;
+        }
         // Loop through all the files in the config folder
         await fsPromises.mkdir(copyTo, { recursive: true });
         const files = await fsPromises.readdir(copyFrom);
@@ -358,7 +382,13 @@ export class BootstrapUtils {
                     if (notBlacklisted && inWhitelistIfAny) {
                         if (isMustache) {
                             const template = await BootstrapUtils.readTextFile(fromPath);
-                            const renderedTemplate = this.runTemplate(template, templateContext);
+                            const renderedTemplate = propertiesOverrides[fileName]
+                                ? this.applyPropertiesOverrides(
+                                      this.runTemplate(template, templateContext),
+                                      propertiesOverrides[fileName],
+                                      destinationFile,
+                                  )
+                                : this.runTemplate(template, templateContext);
 
                             await fsPromises.writeFile(
                                 destinationFile,
@@ -373,12 +403,50 @@ export class BootstrapUtils {
                     }
                 } else if (stat.isDirectory()) {
                     await fsPromises.mkdir(toPath, { recursive: true });
-                    await this.generateConfiguration(templateContext, fromPath, toPath, excludeFiles, includeFiles);
+                    await this.generateConfiguration(templateContext, fromPath, toPath, excludeFiles, includeFiles, propertiesOverrides);
                 }
             }),
         );
     }
 
+    /**
+     * It adds or replaces the keys of a rendered properties file. Keys and sections that don't exist in the file are added
+     * and reported as they may be misspelled.
+     *
+     * @param content the rendered properties file.
+     * @param sections the properties per section.
+     * @param fileLocation the properties file location, used in the warnings.
+     */
+    public static applyPropertiesOverrides(content: string, sections: PropertiesOverridesPreset[string], fileLocation: string): string {
+        const lines = content.replace(/\s+$/, '').split('\n');
+        Object.entries(sections).forEach(([section, properties]) => {
+            let sectionIndex = lines.findIndex((line) => line.trim() === `[${section}]`);
+            if (sectionIndex < 0) {
+                logger.warn(`Section [${section}] doesn't exist in ${fileLocation}. It has been added.`);
+                lines.push('', `[${section}]`, '');
+                sectionIndex = lines.length - 2;
+            }
+            Object.entries(properties).forEach(([key, value]) => {
+                const nextSectionIndex = lines.findIndex((line, index) => index > sectionIndex && line.trim().startsWith('['));
+                const sectionEndIndex = nextSectionIndex < 0 ? lines.length : nextSectionIndex;
+                const keyPattern = new RegExp(`^\\s*${_.escapeRegExp(key)}\\s*=`);
+                const keyIndex = lines.findIndex((line, index) => index > sectionIndex && index < sectionEndIndex && keyPattern.test(line));
+                const line = `${key} = ${value}`;
+                if (keyIndex > -1) {
+                    lines[keyIndex] = line;
+                    return;
+                }
+                logger.warn(`Property ${key} doesn't exist in section [${section}] of ${fileLocation}. It has been added.`);
+                let insertIndex = sectionEndIndex;
+                while (insertIndex - 1 > sectionIndex + 1 && !lines[insertIndex - 1].trim()) {
+                    insertIndex--;
+                }
+                lines.splice(insertIndex, 0, line);
+            });
+        });
+        return lines.join('\n') + '\n';
+    }
+
     public static async chmodRecursive(path: string, mode: string | number): Promise<void> {
         // Loop through all the files in the config folder
         const stat = await fsPromises.stat(path);
@@ -84,7 +84,11 @@ export class ComposeService {
         }
 
         await BootstrapUtils.mkdir(targetDocker);
-        await BootstrapUtils.generateConfiguration(presetData, join(this.root, 'config', 'docker'), targetDocker);
+        await BootstrapUtils.generateConfiguration(
+            presetData,
+            BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'docker'),
+            targetDocker,
+        );
 
         await BootstrapUtils.chmodRecursive(join(targetDocker, 'mongo'), 0o666);
 
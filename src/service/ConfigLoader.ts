@@ -15,7 +15,7 @@
  */
 import { existsSync } from 'fs';
 import * as _ from 'lodash';
-import { join } from 'path';
+import { dirname, isAbsolute, join, resolve } from 'path';
 import { Account, Address, Convert, Crypto, MosaicId, MosaicNonce, NetworkType, PublicAccount } from 'symbol-sdk';
 import { LogType } from '../logger';
 import Logger from '../logger/Logger';
@@ -25,7 +25,6 @@ import {
     ConfigAccount,
     ConfigPreset,
     CustomPreset,
-    DeepPartial,
     MosaicAccounts,
     NodeAccount,
     NodePreset,
@@ -35,22 +34,41 @@ import { BootstrapUtils, KnownError, Migration, Password } from './BootstrapUtil
 import { CommandUtils } from './CommandUtils';
 import { KeyName, Preset } from './ConfigService';
 import { CryptoUtils } from './CryptoUtils';
+import { MnemonicUtils } from './MnemonicUtils';
+import { PresetLayer, PresetProvenance } from './PresetProvenance';
+import { PresetValidator } from './PresetValidator';
 
 const logger: Logger = LoggerFactory.getLogger(LogType.System);
 
 export class ConfigLoader {
     public static presetInfoLogged = false;
 
+    // Values loaded from secret files, like ${file:/run/secrets/main_key}, by the last createPresetData call.
+    private readonly secretValues = new Set<string>();
+
+    public getSecretValues(): string[] {
+        return [...this.secretValues];
+    }
+
     public async generateRandomConfiguration(oldAddresses: Addresses | undefined, presetData: ConfigPreset): Promise<Addresses> {
         const networkType = presetData.networkType;
+        const derive = this.getMnemonicDerivation(presetData);
+        const derivedSinkPrivateKey = derive(MnemonicUtils.getSinkPath(networkType));
         const addresses: Addresses = {
             version: this.getAddressesMigration(presetData.networkType).length + 1,
             networkType: networkType,
             nemesisGenerationHashSeed:
                 presetData.nemesisGenerationHashSeed ||
                 oldAddresses?.nemesisGenerationHashSeed ||
+                derive(MnemonicUtils.getGenerationHashSeedPath(networkType)) ||
                 Convert.uint8ToHex(Crypto.randomBytes(32)),
-            sinkAddress: presetData.sinkAddress || oldAddresses?.sinkAddress || Account.generateNewAccount(networkType).address.plain(),
+            sinkAddress:
+                presetData.sinkAddress ||
+                oldAddresses?.sinkAddress ||
+                (derivedSinkPrivateKey
+                    ? Account.createFromPrivateKey(derivedSinkPrivateKey, networkType)
+                    : Account.generateNewAccount(networkType)
+                ).address.plain(),
         };
 
         if (presetData.nodes) {
@@ -81,6 +99,7 @@ export class ConfigLoader {
                 oldAddresses?.nemesisSigner,
                 presetData.nemesis.nemesisSignerPrivateKey,
                 presetData.nemesisSignerPublicKey,
+                derive(MnemonicUtils.getNemesisSignerPath(networkType)),
             );
             presetData.nemesisSignerPublicKey = addresses.nemesisSigner.publicKey;
             presetData.nemesis.nemesisSignerPrivateKey = await CommandUtils.resolvePrivateKey(
@@ -119,7 +138,9 @@ export class ConfigLoader {
                 if (presetData.nemesis.mosaics) {
                     const mosaics: MosaicAccounts[] = [];
                     presetData.nemesis.mosaics.forEach((m, index) => {
-                        const accounts = this.generateAddresses(networkType, privateKeySecurityMode, m.accounts);
+                        const accounts = this.generateAddresses(networkType, privateKeySecurityMode, m.accounts, (accountIndex) =>
+                            derive(MnemonicUtils.getNemesisAccountPath(networkType, index, accountIndex)),
+                        );
                         mosaics.push({
                             id: index ? presetData.currencyMosaicId : presetData.harvestingMosaicId,
                             name: m.name,
@@ -154,12 +175,39 @@ export class ConfigLoader {
         return addresses;
     }
 
-    public generateAddresses(networkType: NetworkType, privateKeySecurityMode: PrivateKeySecurityMode, size: number): ConfigAccount[] {
-        return ConfigLoader.getArray(size).map(() =>
-            this.generateAccount(networkType, privateKeySecurityMode, KeyName.NemesisAccount, undefined, undefined, undefined),
+    public generateAddresses(
+        networkType: NetworkType,
+        privateKeySecurityMode: PrivateKeySecurityMode,
+        size: number,
+        derive: (index: number) => string | undefined = () => undefined,
+    ): ConfigAccount[] {
+        return ConfigLoader.getArray(size).map((index) =>
+            this.generateAccount(
+                networkType,
+                privateKeySecurityMode,
+                KeyName.NemesisAccount,
+                undefined,
+                undefined,
+                undefined,
+                derive(index),
+            ),
         );
     }
 
+    /**
+     * It returns a function that derives a private key from the preset's mnemonic. The function returns undefined when there
+     * is no mnemonic, so random keys are generated.
+     *
+     * @param presetData the preset with the optional mnemonic.
+     */
+    public getMnemonicDerivation(presetData: ConfigPreset): (path: string) => string | undefined {
+        if (!presetData.mnemonic) {
+            return () => undefined;
+        }
+        const seed = MnemonicUtils.toSeed(presetData.mnemonic);
+        return (path: string) => MnemonicUtils.derivePrivateKey(seed, path);
+    }
+
     public getAccount(
         networkType: NetworkType,
         publicKey: string | undefined,
@@ -195,6 +243,7 @@ export class ConfigLoader {
         oldStoredAccount: ConfigAccount | undefined,
         privateKey: string | undefined,
         publicKey: string | undefined,
+        derivedPrivateKey?: string,
     ): ConfigAccount {
         const oldAccount = this.getAccount(
             networkType,
@@ -223,6 +272,12 @@ export class ConfigLoader {
             return this.toConfig(newAccount);
         }
 
+        // Derived keys can be recovered from the mnemonic, they don't need to be stored.
+        if (derivedPrivateKey) {
+            logger.info(`Deriving ${keyName} account from the mnemonic...`);
+            return ConfigLoader.toConfig(Account.createFromPrivateKey(derivedPrivateKey, networkType));
+        }
+
         //Generation validation.
         if (
             keyName === KeyName.Main &&
@@ -262,6 +317,8 @@ export class ConfigLoader {
     ): NodeAccount {
         const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
         const name = nodePreset.name || `node-${index}`;
+        const derive = this.getMnemonicDerivation(presetData);
+        const deriveNodeKey = (keyName: KeyName) => derive(MnemonicUtils.getNodeKeyPath(networkType, index, keyName));
         const main = this.generateAccount(
             networkType,
             privateKeySecurityMode,
@@ -269,6 +326,7 @@ export class ConfigLoader {
             oldNodeAccount?.main,
             nodePreset.mainPrivateKey,
             nodePreset.mainPublicKey,
+            deriveNodeKey(KeyName.Main),
         );
         const transport = this.generateAccount(
             networkType,
@@ -277,6 +335,7 @@ export class ConfigLoader {
             oldNodeAccount?.transport,
             nodePreset.transportPrivateKey,
             nodePreset.transportPublicKey,
+            deriveNodeKey(KeyName.Transport),
         );
 
         const friendlyName = nodePreset.friendlyName || main.publicKey.substr(0, 7);
@@ -299,6 +358,7 @@ export class ConfigLoader {
                 oldNodeAccount?.remote,
                 nodePreset.remotePrivateKey,
                 nodePreset.remotePublicKey,
+                deriveNodeKey(KeyName.Remote),
             );
         if (nodePreset.harvesting)
             nodeAccount.vrf = this.generateAccount(
@@ -308,6 +368,7 @@ export class ConfigLoader {
                 oldNodeAccount?.vrf,
                 nodePreset.vrfPrivateKey,
                 nodePreset.vrfPublicKey,
+                deriveNodeKey(KeyName.VRF),
             );
         if (nodePreset.rewardProgram)
             nodeAccount.agent = this.generateAccount(
@@ -317,6 +378,7 @@ export class ConfigLoader {
                 oldNodeAccount?.agent,
                 nodePreset.agentPrivateKey,
                 nodePreset.agentPublicKey,
+                deriveNodeKey(KeyName.Agent),
             );
         return nodeAccount;
     }
@@ -337,23 +399,145 @@ export class ConfigLoader {
         return [...Array(size).keys()];
     }
 
-    public loadCustomPreset(customPreset: string | undefined, password: Password): CustomPreset {
-        if (!customPreset) {
-            return {};
+    /**
+     * It loads and merges the custom preset files. See loadCustomPresetFiles.
+     *
+     * @param customPreset the custom preset file or files.
+     * @param password the password used to decrypt the files.
+     */
+    public loadCustomPreset(customPreset: string | string[] | undefined, password: Password): CustomPreset {
+        return this.mergeCustomPresets(this.loadCustomPresetFiles(customPreset, password).map((layer) => layer.preset));
+    }
+
+    /**
+     * It loads the custom preset files in merge order. The files listed in the extends: field of a custom preset are loaded
+     * before it, relative to the file. Each file is loaded only once, the first time it's found.
+     *
+     * @param customPreset the custom preset file or files.
+     * @param password the password used to decrypt the files.
+     */
+    public loadCustomPresetFiles(customPreset: string | string[] | undefined, password: Password): PresetLayer[] {
+        const layers: PresetLayer[] = [];
+        const loaded: Record<string, boolean> = {};
+        const load = (file: string, stack: string[]): void => {
+            const location = resolve(file);
+            if (stack.find((parent) => resolve(parent) === location)) {
+                throw new KnownError(`Custom preset '${file}' cannot be extended in a cycle: ${[...stack, file].join(' -> ')}`);
+            }
+            if (loaded[location]) {
+                return;
+            }
+            if (!existsSync(file)) {
+                const parent = _.last(stack);
+                throw new KnownError(
+                    parent
+                        ? `Custom preset '${file}' extended by '${parent}' doesn't exist.`
+                        : `Custom preset '${file}' doesn't exist. Have you provided the right --customPreset <customPrestFileLocation> ?`,
+                );
+            }
+            const fileObject: CustomPreset = BootstrapUtils.loadYaml(file, password) || {};
+            const version = fileObject.version || 1;
+            const migrated = this.applyCustomPresetMigrations(file, _.cloneDeep(fileObject));
+            const outdated = !_.isEqual(migrated, fileObject);
+            const preset: CustomPreset = this.interpolate(migrated, file);
+            _.castArray(preset.extends || []).forEach((parent) => {
+                load(isAbsolute(parent) ? parent : join(dirname(file), parent), [...stack, file]);
+            });
+            loaded[location] = true;
+            layers.push({ source: file, version, outdated, preset: _.omit(preset, 'extends', 'version') });
+        };
+        _.castArray(customPreset || []).forEach((file) => load(file, []));
+        return layers;
+    }
+
+    /**
+     * It replaces the ${env:NAME} and ${file:path} expressions in the custom preset values. File paths are relative to the
+     * custom preset file. File values are secrets, they are not written back to the target's preset.yml.
+     *
+     * @param value the custom preset or one of its values.
+     * @param customPresetFile the custom preset file.
+     */
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    public interpolate(value: any, customPresetFile: string): any {
+        if (_.isArray(value)) {
+            return value.map((v) => this.interpolate(v, customPresetFile));
         }
-        if (!existsSync(customPreset)) {
+        if (_.isObject(value)) {
+            return _.mapValues(value, (v) => this.interpolate(v, customPresetFile));
+        }
+        if (!_.isString(value)) {
+            return value;
+        }
+        let secret = false;
+        const interpolated = value.replace(/\$\{(env|file):([^}]+)}/g, (expression: string, type: string, name: string) => {
+            if (type === 'env') {
+                const envValue = process.env[name];
+                if (envValue === undefined) {
+                    throw new KnownError(`Environment variable ${name} used in custom preset '${customPresetFile}' is not defined.`);
+                }
+                return envValue;
+            }
+            const location = isAbsolute(name) ? name : join(dirname(customPresetFile), name);
+            if (!existsSync(location)) {
+                throw new KnownError(`File ${location} used in custom preset '${customPresetFile}' doesn't exist.`);
+            }
+            secret = true;
+            return BootstrapUtils.loadFileAsText(location).trim();
+        });
+        if (interpolated === value) {
+            return value;
+        }
+        if (secret) {
+            this.secretValues.add(interpolated);
+            return interpolated;
+        }
+        // Single environment variables like ${env:NODE_PORT} can be numbers or booleans.
+        if (/^\$\{env:[^}]+}$/.test(value)) {
+            if (/^-?\d+(\.\d+)?$/.test(interpolated)) {
+                return Number(interpolated);
+            }
+            if (interpolated === 'true' || interpolated === 'false') {
+                return interpolated === 'true';
+            }
+        }
+        return interpolated;
+    }
+
+    private mergeCustomPresets(presets: (CustomPreset | undefined)[]): CustomPreset {
+        const customPreset = this.mergePresets({}, ...presets);
+        if (!presets.find((p) => p?.inflation)) {
+            delete customPreset.inflation;
+        }
+        return customPreset;
+    }
+
+    /**
+     * It resolves the folder of a network preset, the one with the network.yml, assembly files and seed folder. Presets
+     * in the external presets folder take precedence over the bundled ones.
+     *
+     * @param root the bootstrap root folder.
+     * @param preset the preset name, like testnet or the name of a preset in the presets folder.
+     * @param presetsFolder the optional external presets folder.
+     */
+    public static getPresetFolder(root: string, preset: string, presetsFolder: string | undefined): string {
+        const presetFolder = [presetsFolder && join(presetsFolder, preset), join(root, 'presets', preset)].find(
+            (folder) => folder && existsSync(join(folder, 'network.yml')),
+        );
+        if (!presetFolder) {
             throw new KnownError(
-                `Custom preset '${customPreset}' doesn't exist. Have you provided the right --customPreset <customPrestFileLocation> ?`,
+                `Preset '${preset}' could not be found${
+                    presetsFolder ? ` in the presets folder '${presetsFolder}'` : ''
+                }. Have you provided the right --preset <preset> --presetsFolder <presetsFolder> ?`,
             );
         }
-        return BootstrapUtils.loadYaml(customPreset, password);
+        return presetFolder;
     }
 
-    private loadAssembly(root: string, preset: Preset, assembly: string | undefined): CustomPreset {
+    private loadAssembly(presetFolder: string, preset: string, assembly: string | undefined): CustomPreset {
         if (!assembly) {
             return {};
         }
-        const fileLocation = `${root}/presets/${preset}/assembly-${assembly}.yml`;
+        const fileLocation = join(presetFolder, `assembly-${assembly}.yml`);
         if (!existsSync(fileLocation)) {
             throw new KnownError(
                 `Assembly '${assembly}' is not valid for preset '${preset}'. Have you provided the right --preset <preset> --assembly <assembly> ?`,
@@ -362,7 +546,7 @@ export class ConfigLoader {
         return BootstrapUtils.loadYaml(fileLocation, false);
     }
 
-    public mergePresets(object: ConfigPreset, ...otherArgs: (CustomPreset | undefined)[]): any {
+    public mergePresets(object: CustomPreset, ...otherArgs: (CustomPreset | undefined)[]): any {
         const presets: (CustomPreset | undefined)[] = [object, ...otherArgs];
         const inflation: Record<string, number> = presets.reverse().find((p) => p?.inflation)?.inflation || {};
         const presetData = _.merge(object, ...otherArgs);
@@ -373,16 +557,24 @@ export class ConfigLoader {
     public createPresetData(params: {
         password: Password;
         root: string;
-        preset?: Preset;
+        preset?: string;
+        presetsFolder?: string;
         assembly?: string;
-        customPreset?: string;
+        customPreset?: string | string[];
         customPresetObject?: CustomPreset;
+        mnemonicFile?: string;
         oldPresetData?: ConfigPreset;
+        provenance?: PresetProvenance;
     }): ConfigPreset {
         const customPreset = params.customPreset;
         const customPresetObject = params.customPresetObject;
         const oldPresetData = params.oldPresetData;
-        const customPresetFileObject = this.loadCustomPreset(customPreset, params.password);
+        this.secretValues.clear();
+        const customPresetFiles = this.loadCustomPresetFiles(customPreset, params.password);
+        const presetValidator = new PresetValidator(params.root);
+        customPresetFiles.forEach((layer) => presetValidator.validateCustomPreset(layer.preset, `'${layer.source}'`));
+        presetValidator.validateCustomPreset(customPresetObject, 'object');
+        const customPresetFileObject = this.mergeCustomPresets(customPresetFiles.map((layer) => layer.preset));
         const preset =
             params.preset ||
             params.customPresetObject?.preset ||
@@ -393,26 +585,53 @@ export class ConfigLoader {
         const assembly =
             params.assembly || params.customPresetObject?.assembly || customPresetFileObject?.assembly || params.oldPresetData?.assembly;
 
+        const presetsFolder =
+            params.presetsFolder ||
+            params.customPresetObject?.presetsFolder ||
+            customPresetFileObject?.presetsFolder ||
+            params.oldPresetData?.presetsFolder;
+
         const root = params.root;
+        const presetFolder = ConfigLoader.getPresetFolder(root, preset, presetsFolder);
+        const presetFolderName = presetFolder === join(root, 'presets', preset) ? join('presets', preset) : presetFolder;
         const sharedPreset = BootstrapUtils.loadYaml(join(root, 'presets', 'shared.yml'), false);
-        const networkPreset = BootstrapUtils.loadYaml(`${root}/presets/${preset}/network.yml`, false);
-        const assemblyPreset = this.loadAssembly(root, preset, assembly);
-
-        const presetData = this.mergePresets(sharedPreset, networkPreset, assemblyPreset, customPresetFileObject, customPresetObject, {
-            preset,
-        });
+        const networkPreset = BootstrapUtils.loadYaml(join(presetFolder, 'network.yml'), false);
+        const assemblyPreset = this.loadAssembly(presetFolder, preset, assembly);
+        const resolvedPreset: CustomPreset = presetsFolder ? { preset, presetsFolder } : { preset };
+
+        params.provenance?.addLayers([
+            { source: join('presets', 'shared.yml'), preset: sharedPreset },
+            { source: join(presetFolderName, 'network.yml'), preset: networkPreset },
+            { source: join(presetFolderName, `assembly-${assembly}.yml`), preset: assemblyPreset },
+            ...customPresetFiles.map((layer) => ({ source: `custom preset '${layer.source}'`, preset: layer.preset })),
+            { source: 'custom preset object', preset: customPresetObject },
+            { source: 'resolved preset', preset: resolvedPreset },
+        ]);
+        const presetData = this.mergePresets(
+            sharedPreset,
+            networkPreset,
+            assemblyPreset,
+            ...customPresetFiles.map((layer) => layer.preset),
+            customPresetObject,
+            resolvedPreset,
+        );
+        if (params.mnemonicFile) {
+            presetData.mnemonic = MnemonicUtils.loadMnemonicFile(params.mnemonicFile);
+            this.secretValues.add(presetData.mnemonic);
+        }
 
         if (presetData.assemblies && !assembly) {
             throw new Error(`Preset ${preset} requires assembly (-a, --assembly option). Possible values are: ${presetData.assemblies}`);
         }
         if (!ConfigLoader.presetInfoLogged) {
             logger.info(`Generating config from preset '${preset}'`);
+            if (presetFolderName !== join('presets', preset)) {
+                logger.info(`Using preset folder '${presetFolderName}'`);
+            }
             if (assembly) {
                 logger.info(`Using assembly '${assembly}'`);
             }
-            if (customPreset) {
-                logger.info(`Using custom preset file '${customPreset}'`);
-            }
+            customPresetFiles.forEach((layer) => logger.info(`Using custom preset file '${layer.source}'`));
         }
         ConfigLoader.presetInfoLogged = true;
         const presetDataWithDynamicDefaults = {
@@ -420,18 +639,20 @@ export class ConfigLoader {
             preset: preset,
             assembly: assembly || '',
             ...presetData,
-            nodes: this.dynamicDefaultNodeConfiguration(presetData.nodes),
+            nodes: this.dynamicDefaultNodeConfiguration(presetData.nodes, params.provenance),
         };
         return _.merge(oldPresetData || {}, this.expandRepeat(presetDataWithDynamicDefaults));
     }
 
-    public dynamicDefaultNodeConfiguration(nodes?: NodePreset[]): NodePreset[] {
-        return _.map(nodes || [], (node) => {
-            return { ...this.getDefaultConfiguration(node), ...node };
+    public dynamicDefaultNodeConfiguration(nodes?: NodePreset[], provenance?: PresetProvenance): NodePreset[] {
+        const defaults = _.map(nodes || [], (node) => this.getDefaultConfiguration(node));
+        provenance?.addNodeDefaults(nodes || [], defaults);
+        return _.map(nodes || [], (node, index) => {
+            return { ...defaults[index], ...node };
         });
     }
 
-    private getDefaultConfiguration(node: NodePreset): DeepPartial<NodePreset> {
+    private getDefaultConfiguration(node: NodePreset): Partial<NodePreset> {
         if (node.harvesting && node.api) {
             return {
                 syncsource: true,
@@ -574,6 +795,21 @@ export class ConfigLoader {
         return presetData;
     }
 
+    /**
+     * It writes the target's preset.yml without the private keys and the values loaded from secret files.
+     *
+     * @param target the target folder.
+     * @param presetData the resolved preset.
+     * @param password the password the file is encrypted with.
+     */
+    public async writePresetData(target: string, presetData: ConfigPreset, password: string | undefined): Promise<void> {
+        await BootstrapUtils.writeYaml(
+            this.getGeneratedPresetLocation(target),
+            CryptoUtils.removePrivateKeys(presetData, [], this.getSecretValues()),
+            password,
+        );
+    }
+
     public loadExistingAddressesIfPreset(target: string, password: Password): Addresses | undefined {
         const generatedAddressLocation = this.getGeneratedAddressLocation(target);
         if (existsSync(generatedAddressLocation)) {
@@ -589,6 +825,130 @@ export class ConfigLoader {
         return BootstrapUtils.migrate('addresses.yml', addresses, migrations);
     }
 
+    /**
+     * It migrates a custom preset file to the current custom preset version.
+     *
+     * @param file the custom preset file, used in the logs.
+     * @param customPreset the custom preset file content.
+     * @param changes the optional list where the renamed and deprecated keys are reported.
+     */
+    public migrateCustomPreset(file: string, customPreset: CustomPreset, changes: string[] = []): CustomPreset {
+        return BootstrapUtils.migrate(`custom preset ${file}`, customPreset, this.getCustomPresetMigrations(changes));
+    }
+
+    /**
+     * It migrates and rewrites a custom preset file. Encrypted values are kept encrypted, yaml comments are not preserved.
+     *
+     * @param file the custom preset file.
+     * @return the renamed and deprecated keys.
+     */
+    public async migrateCustomPresetFile(file: string): Promise<string[]> {
+        if (!existsSync(file)) {
+            throw new KnownError(
+                `Custom preset '${file}' doesn't exist. Have you provided the right --customPreset <customPrestFileLocation> ?`,
+            );
+        }
+        const customPreset: CustomPreset = BootstrapUtils.loadYaml(file, false) || {};
+        if ((customPreset.version || 1) === this.getCustomPresetVersion()) {
+            return [];
+        }
+        const changes: string[] = [];
+        const migrated = this.migrateCustomPreset(file, customPreset, changes);
+        await BootstrapUtils.writeYaml(file, migrated, undefined);
+        return changes;
+    }
+
+    // Custom presets are migrated in memory on every load. Only the renamed or deprecated keys are logged.
+    private applyCustomPresetMigrations(file: string, customPreset: CustomPreset): CustomPreset {
+        const version = customPreset.version || 1;
+        const changes: string[] = [];
+        const migrations = this.getCustomPresetMigrations(changes);
+        if (version > migrations.length + 1) {
+            throw new KnownError(
+                `Custom preset '${file}' version ${version} is not supported. The current custom preset version is ${
+                    migrations.length + 1
+                }. Have you upgraded symbol-bootstrap?`,
+            );
+        }
+        const migrated = migrations.slice(version - 1).reduce((from, migration) => migration.migrate(from), customPreset);
+        if (changes.length) {
+            logger.warn(
+                `Custom preset '${file}' uses deprecated keys. Run 'symbol-bootstrap preset:migrate -c ${file}' to upgrade it:\n${changes
+                    .map((change) => `  - ${change}`)
+                    .join('\n')}`,
+            );
+        }
+        return migrated;
+    }
+
+    /**
+     * It resolves the custom preset files the migrations change. Files of older versions without deprecated keys are not outdated.
+     *
+     * @param customPreset the custom preset file or files.
+     * @param password the password used to decrypt the files.
+     */
+    public getOutdatedCustomPresets(customPreset: string | string[] | undefined, password: Password): PresetLayer[] {
+        return this.loadCustomPresetFiles(customPreset, password).filter((layer) => layer.outdated);
+    }
+
+    public getCustomPresetVersion(): number {
+        return this.getCustomPresetMigrations().length + 1;
+    }
+
+    public getCustomPresetMigrations(changes: string[] = []): Migration[] {
+        const rename = (object: any, path: string, from: string, to: string) => {
+            if (object && object[from] !== undefined) {
+                if (object[to] === undefined) {
+                    object[to] = object[from];
+                }
+                delete object[from];
+                changes.push(`${path}${from} has been renamed to ${to}.`);
+            }
+        };
+        const remove = (object: any, path: string, key: string, reason: string) => {
+            if (object && object[key] !== undefined) {
+                delete object[key];
+                changes.push(`${path}${key} has been removed. ${reason}`);
+            }
+        };
+        return [
+            {
+                description: 'Key names migration',
+
+                migrate(from: any): any {
+                    (from.nodes || []).forEach((node: any, index: number) => {
+                        const path = `nodes[${index}].`;
+                        rename(node, path, 'signingPrivateKey', 'mainPrivateKey');
+                        rename(node, path, 'signingPublicKey', 'mainPublicKey');
+                        rename(node, path, 'sslPrivateKey', 'transportPrivateKey');
+                        rename(node, path, 'sslPublicKey', 'transportPublicKey');
+                    });
+                    return from;
+                },
+            },
+            {
+                description: 'Reward program enroll migration',
+
+                migrate(from: any): any {
+                    rename(from, '', 'rewardProgramEnrolmentAddress', 'rewardProgramEnrollmentAddress');
+                    return from;
+                },
+            },
+            {
+                description: 'Voting key files migration',
+
+                migrate(from: any): any {
+                    (from.nodes || []).forEach((node: any, index: number) => {
+                        const reason = 'Voting keys are stored in voting key files, see the updateVotingKeys command.';
+                        remove(node, `nodes[${index}].`, 'votingPrivateKey', reason);
+                        remove(node, `nodes[${index}].`, 'votingPublicKey', reason);
+                    });
+                    return from;
+                },
+            },
+        ];
+    }
+
     public getAddressesMigration(networkType: NetworkType): Migration[] {
         // eslint-disable-next-line @typescript-eslint/no-this-alias
         const configLoader = this;
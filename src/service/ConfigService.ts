@@ -14,10 +14,11 @@
  * limitations under the License.
  */
 
+import { createHash } from 'crypto';
 import * as fs from 'fs';
-import { copyFileSync, existsSync, promises as fsPromises } from 'fs';
+import { copyFileSync, existsSync, promises as fsPromises, readdirSync } from 'fs';
 import * as _ from 'lodash';
-import { join } from 'path';
+import { join, relative, sep } from 'path';
 import {
     Account,
     AccountKeyLinkTransaction,
@@ -71,13 +72,15 @@ export interface ConfigParams {
     reset: boolean;
     upgrade: boolean;
     offline?: boolean;
-    preset?: Preset;
+    preset?: string;
+    presetsFolder?: string;
     target: string;
     password?: string;
     user: string;
     assembly?: string;
-    customPreset?: string;
+    customPreset?: string | string[];
     customPresetObject?: CustomPreset;
+    mnemonicFile?: string;
 }
 
 export interface ConfigResult {
@@ -123,6 +126,10 @@ export class ConfigService {
                 return { presetData, addresses };
             }
 
+            if (this.params.upgrade) {
+                this.warnOutdatedCustomPresets(password);
+            }
+
             const oldPresetData = this.configLoader.loadExistingPresetDataIfPreset(target, password);
             const oldAddresses = this.configLoader.loadExistingAddressesIfPreset(target, password);
 
@@ -139,6 +146,7 @@ export class ConfigService {
             }
 
             const presetData: ConfigPreset = this.resolveCurrentPresetData(oldPresetData, password);
+            this.resolveOverriddenTemplates(presetData, oldPresetData);
             const addresses = await this.configLoader.generateRandomConfiguration(oldAddresses, presetData);
 
             const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
@@ -162,7 +170,7 @@ export class ConfigService {
                 CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, privateKeySecurityMode),
                 password,
             );
-            await BootstrapUtils.writeYaml(presetLocation, CryptoUtils.removePrivateKeys(presetData), password);
+            await this.configLoader.writePresetData(target, presetData, password);
             logger.info(`Configuration generated.`);
             return { presetData, addresses };
         } catch (e) {
@@ -177,6 +185,57 @@ export class ConfigService {
         }
     }
 
+    private warnOutdatedCustomPresets(password: Password): void {
+        const currentVersion = this.configLoader.getCustomPresetVersion();
+        this.configLoader.getOutdatedCustomPresets(this.params.customPreset, password).forEach((layer) => {
+            logger.warn(
+                `Custom preset '${layer.source}' version ${layer.version} changes when migrated to the current custom preset version ${currentVersion}. Run 'symbol-bootstrap preset:migrate -c ${layer.source}' to upgrade it.`,
+            );
+        });
+    }
+
+    /**
+     * It logs the templates of the templates folder replacing or extending the bundled ones.
+     *
+     * When upgrading, it warns about the bundled templates that changed under an override as the override may need the same changes.
+     *
+     * @param presetData the resolved preset.
+     * @param oldPresetData the preset of the previous configuration when upgrading.
+     */
+    private resolveOverriddenTemplates(presetData: ConfigPreset, oldPresetData: ConfigPreset | undefined): void {
+        // The overridden templates of the previous configuration are replaced, not merged.
+        delete presetData.overriddenTemplates;
+        const templatesFolder = presetData.templatesFolder;
+        if (!templatesFolder) {
+            return;
+        }
+        if (!existsSync(templatesFolder)) {
+            throw new KnownError(`Templates folder '${templatesFolder}' doesn't exist.`);
+        }
+        const bundledFolder = join(this.root, 'config');
+        const overriddenTemplates: Record<string, string> = {};
+        BootstrapUtils.getFilesRecursively(templatesFolder)
+            .map((file) => relative(templatesFolder, file).split(sep).join('/'))
+            .sort()
+            .forEach((template) => {
+                const bundledTemplate = join(bundledFolder, template);
+                if (!existsSync(bundledTemplate)) {
+                    logger.info(`Template ${template} added from ${templatesFolder}`);
+                    return;
+                }
+                logger.info(`Template ${template} overridden by ${templatesFolder}`);
+                const hash = createHash('sha256').update(fs.readFileSync(bundledTemplate)).digest('hex');
+                const oldHash = oldPresetData?.overriddenTemplates?.[template];
+                if (oldHash && oldHash !== hash) {
+                    logger.warn(
+                        `Bundled template ${template} has changed since the last configuration. Review your override in ${templatesFolder}, it may need the same changes.`,
+                    );
+                }
+                overriddenTemplates[template] = hash;
+            });
+        presetData.overriddenTemplates = overriddenTemplates;
+    }
+
     private resolveCurrentPresetData(oldPresetData: ConfigPreset | undefined, password: Password) {
         return this.configLoader.createPresetData({ ...this.params, root: this.root, password: password, oldPresetData });
     }
@@ -235,7 +294,7 @@ export class ConfigService {
             await BootstrapUtils.generateConfiguration({}, presetData.nemesisSeedFolder, nemesisSeedFolder);
             return;
         }
-        const finalNemesisSeed = join(this.root, 'presets', presetData.preset, 'seed');
+        const finalNemesisSeed = join(ConfigLoader.getPresetFolder(this.root, presetData.preset, presetData.presetsFolder), 'seed');
         if (existsSync(finalNemesisSeed)) {
             await BootstrapUtils.generateConfiguration({}, finalNemesisSeed, nemesisSeedFolder);
             await this.validateSeedFolder(nemesisSeedFolder, `Is the ${presetData.preset} preset default seed a valid seed folder?`);
@@ -298,7 +357,7 @@ export class ConfigService {
         addresses: Addresses,
         currentFinalizationEpoch: number | undefined,
     ) {
-        const copyFrom = join(this.root, 'config', 'node');
+        const copyFrom = BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'node');
         const name = account.name;
 
         const serverConfig = BootstrapUtils.getTargetNodesFolder(this.params.target, false, name, 'server-config');
@@ -336,6 +395,22 @@ export class ConfigService {
         };
         const templateContext: any = { ...presetData, ...generatedContext, ...nodePreset };
         const excludeFiles: string[] = [];
+        const propertiesOverrides = nodePreset.properties || {};
+        const unknownPropertiesFile = Object.keys(propertiesOverrides).find(
+            (fileName) => !copyFrom.some((folder) => existsSync(join(folder, 'resources', `${fileName}.mustache`))),
+        );
+        if (unknownPropertiesFile) {
+            const propertiesFiles = _.uniq(
+                _.flatMap(copyFrom, (folder) => (existsSync(join(folder, 'resources')) ? readdirSync(join(folder, 'resources')) : []))
+                    .filter((file) => file.endsWith('.properties.mustache'))
+                    .map((file) => file.replace('.mustache', '')),
+            );
+            throw new KnownError(
+                `Properties file ${unknownPropertiesFile} of node ${name} doesn't exist. Possible values are: ${propertiesFiles.join(
+                    ', ',
+                )}`,
+            );
+        }
 
         // Exclude files depending on the enabled extensions. To complete...
         if (!templateContext.harvesting) {
@@ -363,7 +438,7 @@ export class ConfigService {
             templateContext.rewardProgram = rewardProgram;
             templateContext.serverVersion = nodePreset.serverVersion || presetData.serverVersion;
             templateContext.mainPublicKey = account.main.publicKey;
-            const copyFrom = join(this.root, 'config', 'agent');
+            const copyFrom = BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'agent');
             const agentConfig = BootstrapUtils.getTargetNodesFolder(this.params.target, false, name, 'agent');
             await BootstrapUtils.generateConfiguration(templateContext, copyFrom, agentConfig, []);
         }
@@ -385,7 +460,14 @@ export class ConfigService {
         };
 
         logger.info(`Generating ${name} server configuration`);
-        await BootstrapUtils.generateConfiguration({ ...serverRecoveryConfig, ...templateContext }, copyFrom, serverConfig, excludeFiles);
+        await BootstrapUtils.generateConfiguration(
+            { ...serverRecoveryConfig, ...templateContext },
+            copyFrom,
+            serverConfig,
+            excludeFiles,
+            [],
+            propertiesOverrides,
+        );
         const peersP2PFile = await this.generateP2PFile(
             presetData,
             addresses,
@@ -412,6 +494,8 @@ export class ConfigService {
                 copyFrom,
                 brokerConfig,
                 excludeFiles,
+                [],
+                propertiesOverrides,
             );
             copyFileSync(peersP2PFile, join(join(brokerConfig, 'resources', 'peers-p2p.json')));
             copyFileSync(peersApiFile, join(join(brokerConfig, 'resources', 'peers-api.json')));
@@ -650,7 +734,7 @@ export class ConfigService {
     private generateGateways(presetData: ConfigPreset) {
         return Promise.all(
             (presetData.gateways || []).map(async (gatewayPreset, index: number) => {
-                const copyFrom = join(this.root, 'config', 'rest-gateway');
+                const copyFrom = BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'rest-gateway');
                 const generatedContext: Partial<GatewayConfigPreset> = {
                     restDeploymentToolVersion: BootstrapUtils.VERSION,
                     restDeploymentToolLastUpdatedDate: new Date().toISOString().slice(0, 10),
@@ -688,7 +772,7 @@ export class ConfigService {
     private generateExplorers(presetData: ConfigPreset) {
         return Promise.all(
             (presetData.explorers || []).map(async (explorerPreset, index: number) => {
-                const copyFrom = join(this.root, 'config', 'explorer');
+                const copyFrom = BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'explorer');
                 const templateContext = { ...presetData, ...explorerPreset };
                 const name = templateContext.name || `explorer-${index}`;
                 const moveTo = BootstrapUtils.getTargetFolder(this.params.target, false, BootstrapUtils.targetExplorersFolder, name);
@@ -700,7 +784,7 @@ export class ConfigService {
     private generateWallets(presetData: ConfigPreset) {
         return Promise.all(
             (presetData.wallets || []).map(async (explorerPreset, index: number) => {
-                const copyFrom = join(this.root, 'config', 'wallet');
+                const copyFrom = BootstrapUtils.getTemplatesFolders(this.root, presetData.templatesFolder, 'wallet');
                 const templateContext = { ...presetData, ...explorerPreset };
                 const name = templateContext.name || `wallet-${index}`;
                 const moveTo = BootstrapUtils.getTargetFolder(this.params.target, false, BootstrapUtils.targetWalletsFolder, name);
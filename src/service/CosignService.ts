@@ -0,0 +1,226 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { prompt } from 'inquirer';
+import {
+    Account,
+    Address,
+    AggregateTransaction,
+    CosignatureTransaction,
+    MultisigAccountInfo,
+    RepositoryFactory,
+    Transaction,
+    TransactionGroup,
+} from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { KnownError } from './BootstrapUtils';
+import { OfflineTransactionService } from './OfflineTransactionService';
+import { RemoteNodeService } from './RemoteNodeService';
+
+export interface CosignParams {
+    url: string;
+    privateKey: string;
+    hash?: string;
+    ready?: boolean;
+}
+
+/**
+ * The cosignatures an aggregate bonded transaction still requires from the cosigners of a multisig account.
+ */
+export interface MissingCosignatures {
+    required: number;
+    pending: Address[];
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It cosigns the aggregate bonded transactions waiting for the cosigner's signature.
+ */
+export class CosignService {
+    public static readonly pageSize = 100;
+
+    constructor(private readonly params: CosignParams) {}
+
+    /**
+     * It cosigns the partial transaction with the provided hash or all the partial transactions of the cosigner. It returns the cosigned hashes.
+     */
+    public async run(): Promise<string[]> {
+        const url = this.params.url.replace(/\/$/, '');
+        const repositoryFactory = (await new RemoteNodeService().getBestRepositoryInfo([url])).repositoryFactory;
+        const networkType = await repositoryFactory.getNetworkType().toPromise();
+        const cosigner = Account.createFromPrivateKey(this.params.privateKey, networkType);
+        const transactionRepository = repositoryFactory.createTransactionRepository();
+        const aggregates = await this.getPartialTransactions(repositoryFactory, cosigner);
+        if (!aggregates.length) {
+            logger.info(`There are no partial transactions waiting for cosigner ${cosigner.address.plain()}.`);
+            return [];
+        }
+        const cosignedHashes: string[] = [];
+        for (const aggregate of aggregates) {
+            const hash = aggregate.transactionInfo?.hash as string;
+            const description = `AggregateBondedTransaction - Hash: ${hash}`;
+            if (aggregate.signedByAccount(cosigner.publicAccount)) {
+                logger.info(`${description} has already been signed by ${cosigner.address.plain()}.`);
+                continue;
+            }
+            if (!this.params.ready && !(await this.confirmCosign(CosignService.describeAggregate(aggregate)))) {
+                logger.info(`Ignoring transaction ${hash}`);
+                continue;
+            }
+            const signedCosignature = cosigner.signCosignatureTransaction(CosignatureTransaction.create(aggregate));
+            await transactionRepository.announceAggregateBondedCosignature(signedCosignature).toPromise();
+            logger.info(`${description} has been cosigned by ${cosigner.address.plain()}.`);
+            cosignedHashes.push(hash);
+            const signers = [aggregate.signer?.address, ...aggregate.cosignatures.map((c) => c.signer.address), cosigner.address].filter(
+                (a): a is Address => !!a,
+            );
+            await this.logMissingCosignatures(repositoryFactory, aggregate, signers);
+        }
+        return cosignedHashes;
+    }
+
+    /**
+     * It resolves the cosignatures of a multisig account that haven't been provided yet.
+     *
+     * @param multisigAccountInfo the multisig account.
+     * @param signers the addresses that have signed the aggregate transaction.
+     */
+    public static getMissingCosignatures(multisigAccountInfo: MultisigAccountInfo, signers: Address[]): MissingCosignatures {
+        const pending = multisigAccountInfo.cosignatoryAddresses.filter((a) => !signers.some((signer) => signer.equals(a)));
+        const signed = multisigAccountInfo.cosignatoryAddresses.length - pending.length;
+        return { required: Math.max(0, multisigAccountInfo.minApproval - signed), pending };
+    }
+
+    /**
+     * It describes the missing cosignatures of an aggregate bonded transaction.
+     *
+     * @param hash the aggregate bonded transaction hash.
+     * @param missing the missing cosignatures.
+     */
+    public static describeMissingCosignatures(hash: string, missing: MissingCosignatures): string {
+        if (!missing.required) {
+            return `Aggregate Bonded Transaction ${hash} has all the required cosignatures. It will be confirmed shortly.`;
+        }
+        return `Aggregate Bonded Transaction ${hash} requires ${missing.required} more cosignatures from: ${missing.pending
+            .map((a) => a.plain())
+            .join(', ')}. Each cosigner can sign it with 'symbol-bootstrap cosign --hash ${hash}'.`;
+    }
+
+    /**
+     * It describes an aggregate bonded transaction with the linked keys and the signers of its inner transactions.
+     *
+     * @param aggregate the aggregate bonded transaction.
+     */
+    public static describeAggregate(aggregate: AggregateTransaction): string {
+        const describeSigner = (transaction: Transaction) => (transaction.signer ? ` - Signer ${transaction.signer.address.plain()}` : '');
+        return `AggregateBondedTransaction - Hash: ${aggregate.transactionInfo?.hash}${describeSigner(
+            aggregate,
+        )} - Inner transactions:\n${aggregate.innerTransactions
+            .map((t) => `  - ${OfflineTransactionService.describeTransaction(t)}${describeSigner(t)}`)
+            .join('\n')}`;
+    }
+
+    /**
+     * It resolves the partial transactions to cosign. Without a hash, the partial transactions of every multisig account the
+     * cosigner is cosignatory of are searched, page by page.
+     *
+     * @param repositoryFactory the repository factory of the node.
+     * @param cosigner the cosigner account.
+     */
+    public async getPartialTransactions(repositoryFactory: RepositoryFactory, cosigner: Account): Promise<AggregateTransaction[]> {
+        const transactionRepository = repositoryFactory.createTransactionRepository();
+        const getPartialTransaction = async (hash: string): Promise<AggregateTransaction> => {
+            try {
+                return (await transactionRepository.getTransaction(hash, TransactionGroup.Partial).toPromise()) as AggregateTransaction;
+            } catch (e) {
+                throw new KnownError(`Partial transaction ${hash} could not be found. It may have been confirmed or expired.`);
+            }
+        };
+        if (this.params.hash) {
+            return [await getPartialTransaction(this.params.hash)];
+        }
+        const addresses = [cosigner.address];
+        try {
+            const multisigAccountInfo = await repositoryFactory
+                .createMultisigRepository()
+                .getMultisigAccountInfo(cosigner.address)
+                .toPromise();
+            addresses.push(...multisigAccountInfo.multisigAddresses);
+        } catch (e) {
+            logger.warn(`Cosigner ${cosigner.address.plain()} is not a cosignatory of any multisig account. ${e.message}`);
+        }
+        const hashes: string[] = [];
+        for (const address of addresses) {
+            for (let pageNumber = 1; ; pageNumber++) {
+                const page = await transactionRepository
+                    .search({ group: TransactionGroup.Partial, address, pageSize: CosignService.pageSize, pageNumber })
+                    .toPromise();
+                page.data.forEach((transaction) => {
+                    const hash = transaction.transactionInfo?.hash;
+                    if (hash && !hashes.includes(hash)) {
+                        hashes.push(hash);
+                    }
+                });
+                if (page.isLastPage || !page.data.length) {
+                    break;
+                }
+            }
+        }
+        const aggregates: AggregateTransaction[] = [];
+        for (const hash of hashes) {
+            aggregates.push(await getPartialTransaction(hash));
+        }
+        return aggregates;
+    }
+
+    private async logMissingCosignatures(
+        repositoryFactory: RepositoryFactory,
+        aggregate: AggregateTransaction,
+        signers: Address[],
+    ): Promise<void> {
+        const multisigRepository = repositoryFactory.createMultisigRepository();
+        const hash = aggregate.transactionInfo?.hash as string;
+        const multisigAddresses = aggregate.innerTransactions
+            .map((t) => t.signer?.address)
+            .filter((a, index, list): a is Address => !!a && list.findIndex((other) => other?.equals(a)) === index);
+        for (const address of multisigAddresses) {
+            try {
+                const multisigAccountInfo = await multisigRepository.getMultisigAccountInfo(address).toPromise();
+                if (multisigAccountInfo.isMultisig()) {
+                    logger.info(
+                        CosignService.describeMissingCosignatures(hash, CosignService.getMissingCosignatures(multisigAccountInfo, signers)),
+                    );
+                }
+            } catch (e) {
+                logger.warn(`Multisig account ${address.plain()} cannot be loaded. ${e.message}`);
+            }
+        }
+    }
+
+    private async confirmCosign(description: string): Promise<boolean> {
+        const { value } = await prompt([
+            {
+                name: 'value',
+                message: `${description}\nDo you want to cosign it?`,
+                type: 'confirm',
+                default: true,
+            },
+        ]);
+        return value;
+    }
+}
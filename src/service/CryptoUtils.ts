@@ -66,18 +66,28 @@ export class CryptoUtils {
         return this.removePrivateKeys(value, ['voting']);
     }
 
+    /**
+     * It removes the private key fields. When blacklist names are provided, only the fields under the blacklisted names are removed.
+     *
+     * @param value the object.
+     * @param blacklistNames the names of the keys to remove, all of them if empty.
+     * @param secretValues values loaded from secret files. The fields with these values are always removed, whatever their names.
+     */
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-    public static removePrivateKeys(value: any, blacklistNames: string[] = []): any {
+    public static removePrivateKeys(value: any, blacklistNames: string[] = [], secretValues: string[] = []): any {
         if (!value) {
             return value;
         }
         if (_.isArray(value)) {
-            return value.map((v) => this.removePrivateKeys(v, blacklistNames));
+            return value.map((v) => this.removePrivateKeys(v, blacklistNames, secretValues));
         }
 
         if (_.isObject(value)) {
             return _.mapValues(
                 _.pickBy(value, (value: any, name: string) => {
+                    if (_.isString(value) && secretValues.includes(value)) {
+                        return false;
+                    }
                     const isBlacklisted =
                         !blacklistNames.length ||
                         blacklistNames.find((blacklistName) => name.toLowerCase().indexOf(blacklistName.toLowerCase()) > -1);
@@ -87,7 +97,7 @@ export class CryptoUtils {
                     const isBlacklisted =
                         !blacklistNames.length ||
                         blacklistNames.find((blacklistName) => name.toLowerCase().indexOf(blacklistName.toLowerCase()) > -1);
-                    return CryptoUtils.removePrivateKeys(value, isBlacklisted ? [] : blacklistNames);
+                    return CryptoUtils.removePrivateKeys(value, isBlacklisted ? [] : blacklistNames, secretValues);
                 },
             );
         }
@@ -140,7 +150,8 @@ export class CryptoUtils {
         return 0;
     }
 
+    // The mnemonic is handled as a private key as all the keys can be derived from it.
     private static isPrivateKeyField(value: any, fieldName: string | undefined) {
-        return _.isString(value) && fieldName && fieldName.toLowerCase().endsWith('privatekey');
+        return _.isString(value) && fieldName && (fieldName.toLowerCase().endsWith('privatekey') || fieldName === 'mnemonic');
     }
 }
@@ -0,0 +1,194 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { existsSync } from 'fs';
+import { Account, Address, Convert, Crypto, NetworkType, SimpleWallet } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { NodeAccount, PrivateKeySecurityMode } from '../model';
+import { BootstrapUtils, KnownError, Password } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { KeyName } from './ConfigService';
+import { CryptoUtils } from './CryptoUtils';
+
+export interface KeyImportParams {
+    target: string;
+    password: Password;
+    file: string;
+    walletPassword: string;
+    key: ImportableKey;
+    node?: string;
+    profile?: string;
+    account?: string;
+}
+
+/**
+ * An account of a desktop wallet profile export.
+ */
+interface WalletProfileAccount {
+    profileName: string;
+    name: string;
+    address: string;
+    publicKey: string;
+    encryptedPrivateKey: string;
+}
+
+/**
+ * The node account keys that can be imported.
+ */
+export type ImportableKey = 'main' | 'transport' | 'remote' | 'vrf' | 'agent';
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It imports a node key from a Symbol desktop wallet profile export or a SimpleWallet keystore into the target's addresses.yml.
+ */
+export class KeyImportService {
+    public static readonly importableKeys: ImportableKey[] = ['main', 'transport', 'remote', 'vrf', 'agent'];
+
+    private readonly configLoader: ConfigLoader;
+
+    constructor(private readonly params: KeyImportParams) {
+        this.configLoader = new ConfigLoader();
+    }
+
+    public async run(): Promise<NodeAccount> {
+        const { target, password, file } = this.params;
+        const key = this.params.key;
+        if (!KeyImportService.importableKeys.includes(key)) {
+            throw new KnownError(`Invalid key ${key}. Possible values are: ${KeyImportService.importableKeys.join(', ')}`);
+        }
+        const keyName = KeyImportService.getKeyName(key);
+        const presetData = this.configLoader.loadExistingPresetData(target, password);
+        const addresses = this.configLoader.loadExistingAddresses(target, password);
+        const nodes = addresses.nodes || [];
+        const node = this.params.node ? nodes.find((n) => n.name === this.params.node) : nodes.length === 1 ? nodes[0] : undefined;
+        if (!node) {
+            const reason = this.params.node ? `Node ${this.params.node} could not be found` : 'The node must be provided (--node)';
+            throw new KnownError(`${reason}. Possible values are: ${nodes.map((n) => n.name).join(', ')}`);
+        }
+        const account = this.loadAccount(presetData.networkType);
+        const importedAccount = ConfigLoader.toConfig(account);
+        const oldAccount = node[key];
+        if (oldAccount && oldAccount.address !== importedAccount.address) {
+            logger.warn(`Node ${node.name} ${keyName} account ${oldAccount.address} is replaced.`);
+        }
+        node[key] = importedAccount;
+
+        const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
+        await BootstrapUtils.writeYaml(
+            this.configLoader.getGeneratedAddressLocation(target),
+            CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, privateKeySecurityMode),
+            password || undefined,
+        );
+        logger.info(`Node ${node.name} ${keyName} account ${importedAccount.address} has been imported from ${file}.`);
+        if (privateKeySecurityMode !== PrivateKeySecurityMode.ENCRYPT) {
+            logger.info(
+                `The private key is stored according to the ${privateKeySecurityMode} security mode, it may be prompted when required.`,
+            );
+        }
+        logger.info(`Run 'symbol-bootstrap config --upgrade' to regenerate the node configuration with the imported key.`);
+        return node;
+    }
+
+    /**
+     * It loads and decrypts the account of a wallet profile export or a keystore file, validating its network type.
+     *
+     * @param networkType the target's network type.
+     */
+    public loadAccount(networkType: NetworkType): Account {
+        const file = this.params.file;
+        if (!existsSync(file)) {
+            throw new KnownError(`File ${file} doesn't exist!`);
+        }
+        let json: any;
+        try {
+            json = JSON.parse(BootstrapUtils.loadFileAsText(file));
+        } catch (e) {
+            throw new KnownError(`File ${file} is not a valid json file. ${e.message}`);
+        }
+        const { address, encryptedPrivateKey } =
+            json.profiles && json.accounts ? this.getProfileAccount(json) : this.getKeystoreAccount(json);
+        const accountNetworkType = Address.createFromRawAddress(address).networkType;
+        if (accountNetworkType !== networkType) {
+            const accountNetworkName = BootstrapUtils.getNetworkName(accountNetworkType);
+            const networkName = BootstrapUtils.getNetworkName(networkType);
+            throw new KnownError(`Account ${address} is a ${accountNetworkName} account but the target network is ${networkName}.`);
+        }
+        const privateKey = this.decrypt(encryptedPrivateKey);
+        const account =
+            privateKey && Convert.isHexString(privateKey, 64) ? Account.createFromPrivateKey(privateKey, networkType) : undefined;
+        if (!account || account.address.plain() !== address) {
+            throw new KnownError(`Account ${address} cannot be decrypted. Have you provided the right wallet password?`);
+        }
+        return account;
+    }
+
+    private getProfileAccount(json: any): WalletProfileAccount {
+        const profiles = Object.keys(json.profiles.data || {});
+        const profile = this.params.profile || (profiles.length === 1 ? profiles[0] : undefined);
+        if (!profile || !profiles.includes(profile)) {
+            const reason = profile ? `Profile ${profile} could not be found` : 'The profile must be provided (--profile)';
+            throw new KnownError(`${reason}. Possible values are: ${profiles.join(', ')}`);
+        }
+        const accounts: WalletProfileAccount[] = Object.values(json.accounts.data || {});
+        const profileAccounts = accounts.filter((a) => a.profileName === profile);
+        const accountName = this.params.account;
+        const account = accountName
+            ? profileAccounts.find((a) => a.name === accountName || a.address === accountName)
+            : profileAccounts.length === 1
+            ? profileAccounts[0]
+            : undefined;
+        if (!account) {
+            const reason = accountName ? `Account ${accountName} could not be found` : 'The account must be provided (--account)';
+            const possibleValues = profileAccounts.map((a) => `${a.name} (${a.address})`).join(', ');
+            throw new KnownError(`${reason}. Possible values are: ${possibleValues}`);
+        }
+        return account;
+    }
+
+    private getKeystoreAccount(json: any): { address: string; encryptedPrivateKey: string } {
+        if (!json.address?.address || !json.encryptedPrivateKey) {
+            throw new KnownError(`File ${this.params.file} is not a wallet profile export or keystore file.`);
+        }
+        const wallet = SimpleWallet.createFromDTO(json);
+        return { address: wallet.address.plain(), encryptedPrivateKey: wallet.encryptedPrivateKey };
+    }
+
+    // Wallet profiles and keystores encrypt the private keys the same way.
+    private decrypt(encryptedPrivateKey: string): string | undefined {
+        try {
+            return Crypto.decrypt(encryptedPrivateKey, this.params.walletPassword);
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    private static getKeyName(key: ImportableKey): KeyName {
+        switch (key) {
+            case 'main':
+                return KeyName.Main;
+            case 'transport':
+                return KeyName.Transport;
+            case 'remote':
+                return KeyName.Remote;
+            case 'vrf':
+                return KeyName.VRF;
+            case 'agent':
+                return KeyName.Agent;
+        }
+    }
+}
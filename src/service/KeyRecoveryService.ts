@@ -0,0 +1,150 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { Addresses, ConfigAccount, NodeAccount } from '../model';
+import { KnownError, Password } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { KeyName } from './ConfigService';
+
+export interface KeyRecoveryParams {
+    target: string;
+    password: Password;
+    mnemonicFile?: string;
+    preset?: string;
+    presetsFolder?: string;
+    assembly?: string;
+    customPreset?: string | string[];
+}
+
+/**
+ * A key of the existing addresses.yml compared with the key recovered from the mnemonic.
+ */
+export interface RecoveredKey {
+    name: string;
+    existing?: string;
+    recovered?: string;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It regenerates the addresses from the mnemonic and compares them with the addresses.yml of an existing target.
+ */
+export class KeyRecoveryService {
+    private readonly configLoader: ConfigLoader;
+
+    constructor(private readonly root: string, private readonly params: KeyRecoveryParams) {
+        this.configLoader = new ConfigLoader();
+    }
+
+    public async run(): Promise<RecoveredKey[]> {
+        const target = this.params.target;
+        const password = this.params.password;
+        const addresses = this.configLoader.loadExistingAddresses(target, password);
+        const oldPresetData = this.configLoader.loadExistingPresetData(target, password);
+        // The previous preset is not merged as it contains the generated keys.
+        const presetData = this.configLoader.createPresetData({
+            ...this.params,
+            root: this.root,
+            preset: this.params.preset || oldPresetData.preset,
+            presetsFolder: this.params.presetsFolder || oldPresetData.presetsFolder,
+            assembly: this.params.assembly || oldPresetData.assembly,
+        });
+        if (!presetData.mnemonic) {
+            throw new KnownError(`Mnemonic has not been provided. Use --mnemonicFile or the custom preset's mnemonic property.`);
+        }
+        const recoveredAddresses = await this.configLoader.generateRandomConfiguration(undefined, presetData);
+        const keys = KeyRecoveryService.compare(addresses, recoveredAddresses);
+        keys.forEach((key) => {
+            if (key.existing === key.recovered) {
+                logger.info(`${key.name} ${key.recovered} has been recovered.`);
+            } else {
+                logger.warn(`${key.name} is different. Existing ${key.existing || 'none'} but recovered ${key.recovered || 'none'}.`);
+            }
+        });
+        const differentKeys = keys.filter((key) => key.existing !== key.recovered);
+        if (differentKeys.length) {
+            const addressesLocation = this.configLoader.getGeneratedAddressLocation(target);
+            throw new KnownError(
+                `${differentKeys.length} of ${keys.length} keys are different from the ones in ${addressesLocation}. Have you provided the right mnemonic, preset, assembly and custom preset?`,
+            );
+        }
+        logger.info(`All the ${keys.length} keys have been recovered from the mnemonic.`);
+        return keys;
+    }
+
+    /**
+     * It compares the public keys and addresses of two addresses files.
+     *
+     * @param existing the addresses of the target.
+     * @param recovered the addresses recovered from the mnemonic.
+     */
+    public static compare(existing: Addresses, recovered: Addresses): RecoveredKey[] {
+        const keys: RecoveredKey[] = [
+            {
+                name: 'Nemesis Generation Hash Seed',
+                existing: existing.nemesisGenerationHashSeed,
+                recovered: recovered.nemesisGenerationHashSeed,
+            },
+            { name: 'Sink Address', existing: existing.sinkAddress, recovered: recovered.sinkAddress },
+            ...KeyRecoveryService.compareAccounts(KeyName.NemesisSigner, existing.nemesisSigner, recovered.nemesisSigner),
+        ];
+        const nodeKeys: [KeyName, keyof NodeAccount][] = [
+            [KeyName.Main, 'main'],
+            [KeyName.Transport, 'transport'],
+            [KeyName.Remote, 'remote'],
+            [KeyName.VRF, 'vrf'],
+            [KeyName.Agent, 'agent'],
+        ];
+        (existing.nodes || []).forEach((node, index) => {
+            const recoveredNode = recovered.nodes?.[index];
+            nodeKeys.forEach(([keyName, field]) => {
+                keys.push(
+                    ...KeyRecoveryService.compareAccounts(
+                        `${node.name} ${keyName}`,
+                        node[field] as ConfigAccount | undefined,
+                        recoveredNode?.[field] as ConfigAccount | undefined,
+                    ),
+                );
+            });
+        });
+        (existing.mosaics || []).forEach((mosaic, mosaicIndex) => {
+            mosaic.accounts.forEach((account, accountIndex) => {
+                keys.push(
+                    ...KeyRecoveryService.compareAccounts(
+                        `${mosaic.name} ${KeyName.NemesisAccount} ${accountIndex}`,
+                        account,
+                        recovered.mosaics?.[mosaicIndex]?.accounts[accountIndex],
+                    ),
+                );
+            });
+        });
+        return keys;
+    }
+
+    private static compareAccounts(
+        name: string,
+        existing: ConfigAccount | undefined,
+        recovered: ConfigAccount | undefined,
+    ): RecoveredKey[] {
+        if (!existing && !recovered) {
+            return [];
+        }
+        return [{ name, existing: existing?.publicKey.toUpperCase(), recovered: recovered?.publicKey.toUpperCase() }];
+    }
+}
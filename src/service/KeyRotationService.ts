@@ -0,0 +1,255 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { copyFileSync, existsSync, promises as fsPromises, unlinkSync } from 'fs';
+import { dirname, join } from 'path';
+import { Transaction } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { Addresses, ConfigAccount, ConfigPreset, NodeAccount, PrivateKeySecurityMode } from '../model';
+import { AnnounceService } from './AnnounceService';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
+import { CertificateService } from './CertificateService';
+import { ConfigLoader } from './ConfigLoader';
+import { KeyName } from './ConfigService';
+import { CryptoUtils } from './CryptoUtils';
+import { LinkService, LinkServiceTransactionFactoryParams, LinkTransactionGenericFactory } from './LinkService';
+
+export interface KeyRotationParams {
+    target: string;
+    password?: string;
+    key: RotatableKey;
+    node?: string;
+    user: string;
+    url: string;
+    maxFee?: number;
+    feeStrategy?: string;
+    maxFeeCap?: number;
+    useKnownRestGateways: boolean;
+    ready?: boolean;
+    customPreset?: string | string[];
+}
+
+/**
+ * The node account keys that can be rotated.
+ */
+export type RotatableKey = 'transport' | 'remote' | 'vrf';
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It replaces a node's transport, remote or VRF key with a new generated one.
+ *
+ * Remote and VRF keys are unlinked and linked announcing the transactions. Transport keys require new node certificates.
+ * The addresses.yml is only updated once the new key is in place, the previous file is kept in the target's rollback folder.
+ * The new account is stored in the rollback folder, encrypted when a password is provided, before it's used so a failed
+ * rotation can be resumed with the same account.
+ */
+export class KeyRotationService {
+    public static readonly rotatableKeys: RotatableKey[] = ['transport', 'remote', 'vrf'];
+
+    private readonly configLoader: ConfigLoader;
+
+    constructor(private readonly root: string, private readonly params: KeyRotationParams) {
+        this.configLoader = new ConfigLoader();
+    }
+
+    public async run(): Promise<NodeAccount> {
+        const { target, password, key } = this.params;
+        if (!KeyRotationService.rotatableKeys.includes(key)) {
+            throw new KnownError(`Invalid key ${key}. Possible values are: ${KeyRotationService.rotatableKeys.join(', ')}`);
+        }
+        const keyName = KeyRotationService.getKeyName(key);
+        const presetData = this.configLoader.mergePresets(
+            this.configLoader.loadExistingPresetData(target, password),
+            this.configLoader.loadCustomPreset(this.params.customPreset, password),
+        );
+        const addresses = this.configLoader.loadExistingAddresses(target, password);
+        const nodes = addresses.nodes || [];
+        const node = this.params.node ? nodes.find((n) => n.name === this.params.node) : nodes.length === 1 ? nodes[0] : undefined;
+        if (!node) {
+            const reason = this.params.node ? `Node ${this.params.node} could not be found` : 'The node must be provided (--node)';
+            throw new KnownError(`${reason}. Possible values are: ${nodes.map((n) => n.name).join(', ')}`);
+        }
+        const oldAccount = node[key];
+        if (!oldAccount) {
+            throw new KnownError(`Node ${node.name} doesn't have a ${keyName} account to rotate.`);
+        }
+        const nodePreset = presetData.nodes?.[nodes.indexOf(node)];
+        const presetPrivateKey = {
+            transport: nodePreset?.transportPrivateKey,
+            remote: nodePreset?.remotePrivateKey,
+            vrf: nodePreset?.vrfPrivateKey,
+        }[key];
+        if (presetPrivateKey) {
+            logger.warn(
+                `Node ${node.name} ${keyName} private key is provided in the custom preset. Remove it, otherwise 'config --upgrade' restores the old key.`,
+            );
+        }
+        const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
+        const pendingAccountLocation = this.getPendingAccountLocation(node.name);
+        const newAccount = await this.resolvePendingAccount(pendingAccountLocation, oldAccount, () =>
+            this.configLoader.generateAccount(presetData.networkType, privateKeySecurityMode, keyName, undefined, undefined, undefined),
+        );
+        logger.info(`Rotating node ${node.name} ${keyName} account ${oldAccount.address} to ${newAccount.address}`);
+
+        const rollbackFolder = BootstrapUtils.getTargetFolder(
+            target,
+            false,
+            'rollback',
+            `${node.name}-${key}-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+        );
+        if (key === 'transport') {
+            await this.rotateCertificates(presetData, node, newAccount, rollbackFolder);
+        } else {
+            let alreadyLinked = false;
+            const confirmedNodes = await new AnnounceService().announce(this.params, presetData, addresses, {
+                createTransactions: (params) => {
+                    const linkedPublicKey = (this.params.key === 'remote'
+                        ? params.mainAccountInfo.supplementalPublicKeys.linked
+                        : params.mainAccountInfo.supplementalPublicKeys.vrf
+                    )?.publicKey;
+                    if (params.nodeAccount.name === node.name && linkedPublicKey === newAccount.publicKey) {
+                        logger.info(`Node ${node.name} ${keyName} account ${newAccount.address} is already linked.`);
+                        alreadyLinked = true;
+                    }
+                    return this.createTransactions(node.name, newAccount, params);
+                },
+            });
+            if (!alreadyLinked && !confirmedNodes.includes(node.name)) {
+                throw new KnownError(
+                    `The ${keyName} link transactions of node ${node.name} have not been confirmed. The addresses.yml has not been updated.`,
+                );
+            }
+        }
+        node[key] = newAccount;
+        await this.writeAddresses(addresses, privateKeySecurityMode, rollbackFolder);
+        unlinkSync(pendingAccountLocation);
+        logger.info(`Node ${node.name} ${keyName} account has been rotated. The previous files have been copied to ${rollbackFolder}.`);
+        logger.info(`Run 'symbol-bootstrap config --upgrade' and restart the node to use the new ${keyName} key.`);
+        return node;
+    }
+
+    /**
+     * It creates the transactions unlinking the currently linked key and linking the new one for the rotated node.
+     *
+     * @param nodeName the name of the rotated node.
+     * @param newAccount the new remote or VRF account.
+     * @param params the announce params of the current node.
+     */
+    public async createTransactions(
+        nodeName: string,
+        newAccount: ConfigAccount,
+        { presetData, nodeAccount, mainAccountInfo, deadline, maxFee }: LinkServiceTransactionFactoryParams,
+    ): Promise<Transaction[]> {
+        if (nodeAccount.name !== nodeName) {
+            return [];
+        }
+        const { remoteTransactionFactory, vrfTransactionFactory, votingKeyTransactionFactory } = LinkService.createTransactionFactories(
+            presetData.networkType,
+            deadline,
+            maxFee,
+        );
+        const linkedKeys =
+            this.params.key === 'remote'
+                ? { remote: mainAccountInfo.supplementalPublicKeys.linked }
+                : { vrf: mainAccountInfo.supplementalPublicKeys.vrf };
+        const transactions = await new LinkTransactionGenericFactory({ unlink: false, removeOldLinked: true }).createGenericTransactions(
+            nodeName,
+            linkedKeys,
+            { [this.params.key]: newAccount },
+            presetData.lastKnownNetworkEpoch,
+            remoteTransactionFactory,
+            vrfTransactionFactory,
+            votingKeyTransactionFactory,
+        );
+        //Unlink transactions go first.
+        return transactions.sort((t1, t2) => t1.linkAction - t2.linkAction);
+    }
+
+    private getPendingAccountLocation(nodeName: string): string {
+        return BootstrapUtils.getTargetFolder(this.params.target, false, 'rollback', `${nodeName}-${this.params.key}-pending.yml`);
+    }
+
+    // A pending account is left by a rotation that failed before updating the addresses.yml, the key may already be linked.
+    private async resolvePendingAccount(
+        pendingAccountLocation: string,
+        oldAccount: ConfigAccount,
+        generateAccount: () => ConfigAccount,
+    ): Promise<ConfigAccount> {
+        if (existsSync(pendingAccountLocation)) {
+            const pendingAccount: ConfigAccount = BootstrapUtils.loadYaml(pendingAccountLocation, this.params.password);
+            if (pendingAccount.publicKey !== oldAccount.publicKey) {
+                logger.info(`Resuming the pending rotation to account ${pendingAccount.address} stored in ${pendingAccountLocation}.`);
+                return pendingAccount;
+            }
+        }
+        const newAccount = generateAccount();
+        await BootstrapUtils.mkdir(dirname(pendingAccountLocation));
+        await BootstrapUtils.writeYaml(pendingAccountLocation, newAccount, this.params.password);
+        return newAccount;
+    }
+
+    // The new certificates are created aside so the current ones are kept if the generation fails.
+    private async rotateCertificates(
+        presetData: ConfigPreset,
+        node: NodeAccount,
+        newAccount: ConfigAccount,
+        rollbackFolder: string,
+    ): Promise<void> {
+        const certFolder = BootstrapUtils.getTargetNodesFolder(this.params.target, false, node.name, 'cert');
+        const newCertFolder = BootstrapUtils.getTargetNodesFolder(this.params.target, false, node.name, 'new-cert');
+        await new CertificateService(this.root, this.params).run(
+            presetData.networkType,
+            presetData.symbolServerImage,
+            node.name,
+            { main: node.main, transport: newAccount },
+            newCertFolder,
+        );
+        await BootstrapUtils.mkdir(rollbackFolder);
+        if (existsSync(certFolder)) {
+            await fsPromises.rename(certFolder, join(rollbackFolder, 'cert'));
+        }
+        await fsPromises.rename(newCertFolder, certFolder);
+        logger.info(`Certificates for node ${node.name} have been regenerated with the new transport key.`);
+    }
+
+    private async writeAddresses(
+        addresses: Addresses,
+        privateKeySecurityMode: PrivateKeySecurityMode,
+        rollbackFolder: string,
+    ): Promise<void> {
+        const addressesLocation = this.configLoader.getGeneratedAddressLocation(this.params.target);
+        await BootstrapUtils.mkdir(rollbackFolder);
+        copyFileSync(addressesLocation, join(rollbackFolder, 'addresses.yml'));
+        await BootstrapUtils.writeYaml(
+            addressesLocation,
+            CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, privateKeySecurityMode),
+            this.params.password,
+        );
+    }
+
+    private static getKeyName(key: RotatableKey): KeyName {
+        switch (key) {
+            case 'transport':
+                return KeyName.Transport;
+            case 'remote':
+                return KeyName.Remote;
+            case 'vrf':
+                return KeyName.VRF;
+        }
+    }
+}
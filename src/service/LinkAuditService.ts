@@ -0,0 +1,183 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Address } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { BootstrapUtils } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { GenericNodeAccount, KeyAccount, LinkTransactionGenericFactory } from './LinkService';
+import { RemoteNodeService } from './RemoteNodeService';
+import { VotingKeyAccount } from './VotingUtils';
+
+export interface LinkAuditParams {
+    target: string;
+    url: string;
+    useKnownRestGateways: boolean;
+}
+
+/**
+ * ok: the linked key is the configured one.
+ * missing: the configured key is not linked.
+ * stale: the linked voting key has expired.
+ * foreign: the linked key is not the configured one.
+ */
+export type LinkAuditStatus = 'ok' | 'missing' | 'stale' | 'foreign';
+
+export interface LinkAuditEntry {
+    node: string;
+    key: 'remote' | 'vrf' | 'voting';
+    status: LinkAuditStatus;
+    publicKey: string;
+    startEpoch?: number;
+    endEpoch?: number;
+    // How to fix it when the status is not ok.
+    fix?: string;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It compares the keys linked to the nodes' main accounts on chain with the ones in the target's addresses.yml.
+ */
+export class LinkAuditService {
+    private readonly configLoader = new ConfigLoader();
+
+    constructor(private readonly params: LinkAuditParams) {}
+
+    public async run(): Promise<LinkAuditEntry[]> {
+        const presetData = this.configLoader.loadExistingPresetData(this.params.target, false);
+        const addresses = this.configLoader.loadExistingAddresses(this.params.target, false);
+        const url = this.params.url.replace(/\/$/, '');
+        const urls = (this.params.useKnownRestGateways && presetData.knownRestGateways) || [url];
+        const { repositoryFactory, chainInfo } = await new RemoteNodeService().getBestRepositoryInfo(urls);
+        const accountRepository = repositoryFactory.createAccountRepository();
+        const finalizationEpoch = chainInfo.latestFinalizedBlock.finalizationEpoch;
+        const linkCommand = this.getLinkCommand();
+        const entries: LinkAuditEntry[] = [];
+        for (const nodeAccount of addresses.nodes || []) {
+            let linkedKeys: GenericNodeAccount = {};
+            try {
+                const accountInfo = await accountRepository
+                    .getAccountInfo(Address.createFromRawAddress(nodeAccount.main.address))
+                    .toPromise();
+                linkedKeys = {
+                    remote: accountInfo.supplementalPublicKeys.linked,
+                    vrf: accountInfo.supplementalPublicKeys.vrf,
+                    voting: accountInfo.supplementalPublicKeys.voting,
+                };
+            } catch (e) {
+                logger.warn(`Node ${nodeAccount.name} main account ${nodeAccount.main.address} is not known by the network yet.`);
+            }
+            entries.push(...LinkAuditService.audit(nodeAccount.name, nodeAccount, linkedKeys, finalizationEpoch, linkCommand));
+        }
+        LinkAuditService.logEntries(entries);
+        return entries;
+    }
+
+    /**
+     * It classifies the linked and configured keys of a node.
+     *
+     * @param nodeName the node name.
+     * @param configuredKeys the keys in addresses.yml.
+     * @param linkedKeys the keys linked on chain.
+     * @param finalizationEpoch the current finalization epoch. Voting keys ending before it are expired.
+     * @param linkCommand the link command that fixes the keys the link command handles.
+     */
+    public static audit(
+        nodeName: string,
+        configuredKeys: GenericNodeAccount,
+        linkedKeys: GenericNodeAccount,
+        finalizationEpoch: number,
+        linkCommand = 'symbol-bootstrap link',
+    ): LinkAuditEntry[] {
+        const entries: LinkAuditEntry[] = [];
+        const auditKey = (key: 'remote' | 'vrf', configured: KeyAccount | undefined, linked: KeyAccount | undefined) => {
+            if (linked && configured?.publicKey.toUpperCase() === linked.publicKey.toUpperCase()) {
+                entries.push({ node: nodeName, key, status: 'ok', publicKey: linked.publicKey });
+            } else if (linked) {
+                // The link command only replaces keys configured in addresses.yml.
+                const fix = configured
+                    ? `Run '${linkCommand}' and confirm the unlink to replace it with ${configured.publicKey}.`
+                    : `Import the ${key} key with 'symbol-bootstrap keys:import' or unlink it with the wallet that linked it.`;
+                entries.push({ node: nodeName, key, status: 'foreign', publicKey: linked.publicKey, fix });
+            } else if (configured) {
+                entries.push({ node: nodeName, key, status: 'missing', publicKey: configured.publicKey, fix: `Run '${linkCommand}'.` });
+            }
+        };
+        auditKey('remote', configuredKeys.remote, linkedKeys.remote);
+        auditKey('vrf', configuredKeys.vrf, linkedKeys.vrf);
+
+        const votingEntry = (account: VotingKeyAccount, status: LinkAuditStatus, fix?: string): LinkAuditEntry => ({
+            node: nodeName,
+            key: 'voting',
+            status,
+            publicKey: account.publicKey,
+            startEpoch: account.startEpoch,
+            endEpoch: account.endEpoch,
+            ...(fix ? { fix } : {}),
+        });
+        const configuredVotingKeys = configuredKeys.voting || [];
+        const activeVotingKeys = configuredVotingKeys.filter((a) => a.endEpoch >= finalizationEpoch);
+        for (const linked of linkedKeys.voting || []) {
+            if (linked.endEpoch < finalizationEpoch) {
+                entries.push(votingEntry(linked, 'stale', `Run '${linkCommand}' and confirm the unlink of the expired key.`));
+            } else if (configuredVotingKeys.some((a) => LinkTransactionGenericFactory.isSameVotingAccount(a, linked))) {
+                entries.push(votingEntry(linked, 'ok'));
+            } else if (activeVotingKeys.some((a) => LinkTransactionGenericFactory.overlapsVotingAccounts(a, linked))) {
+                entries.push(votingEntry(linked, 'foreign', `Run '${linkCommand}' and confirm the unlink to replace it.`));
+            } else {
+                entries.push(
+                    votingEntry(
+                        linked,
+                        'foreign',
+                        'Unlink it with the wallet that linked it, it does not overlap any voting key file of the node.',
+                    ),
+                );
+            }
+        }
+        for (const configured of activeVotingKeys) {
+            if (!(linkedKeys.voting || []).some((a) => LinkTransactionGenericFactory.isSameVotingAccount(configured, a))) {
+                entries.push(votingEntry(configured, 'missing', `Run '${linkCommand}'.`));
+            }
+        }
+        return entries;
+    }
+
+    private static logEntries(entries: LinkAuditEntry[]): void {
+        if (!entries.length) {
+            logger.info('There are no keys to audit.');
+            return;
+        }
+        entries.forEach((entry) => {
+            const epochs = entry.key === 'voting' ? `, start epoch ${entry.startEpoch}, end epoch ${entry.endEpoch}` : '';
+            const message = `Node ${entry.node} ${entry.key} key ${entry.publicKey}${epochs} is ${entry.status}.`;
+            if (entry.status === 'ok') {
+                logger.info(message);
+            } else {
+                logger.warn(`${message} ${entry.fix}`);
+            }
+        });
+        const drifted = entries.filter((e) => e.status !== 'ok').length;
+        logger.info(drifted ? `${drifted} out of ${entries.length} keys have drifted.` : `All the ${entries.length} keys are linked.`);
+    }
+
+    private getLinkCommand(): string {
+        const target = this.params.target !== BootstrapUtils.defaultTargetFolder ? ` --target ${this.params.target}` : '';
+        const url = this.params.useKnownRestGateways ? ' --useKnownRestGateways' : ` --url ${this.params.url}`;
+        return `symbol-bootstrap link${target}${url}`;
+    }
+}
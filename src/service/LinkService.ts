@@ -20,6 +20,7 @@ import {
     AccountKeyLinkTransaction,
     Deadline,
     LinkAction,
+    NetworkType,
     Transaction,
     UInt64,
     VotingKeyLinkTransaction,
@@ -42,10 +43,15 @@ export type LinkParams = {
     password?: string;
     url: string;
     maxFee?: number | undefined;
+    feeStrategy?: string;
+    maxFeeCap?: number;
     unlink: boolean;
     useKnownRestGateways: boolean;
     ready?: boolean;
-    customPreset?: string;
+    customPreset?: string | string[];
+    exportUnsigned?: string;
+    aggregateBonded?: boolean;
+    aggregate?: boolean;
     removeOldLinked?: boolean; //TEST ONLY!
 };
 
@@ -90,17 +96,43 @@ export class LinkService implements TransactionFactory {
         const customPreset = this.configLoader.loadCustomPreset(this.params.customPreset, this.params.password);
         logger.info(`${this.params.unlink ? 'Unlinking' : 'Linking'} nodes`);
 
-        await new AnnounceService().announce(
-            this.params.url,
-            this.params.maxFee,
-            this.params.useKnownRestGateways,
-            this.params.ready,
-            this.params.target,
-            this.configLoader.mergePresets(presetData, customPreset),
-            addresses,
-            this,
-        );
+        await new AnnounceService().announce(this.params, this.configLoader.mergePresets(presetData, customPreset), addresses, this);
+    }
+    /**
+     * It creates the link transaction factories used by {@link LinkTransactionGenericFactory}.
+     *
+     * @param networkType the network type.
+     * @param deadline the transactions' deadline.
+     * @param maxFee the transactions' max fee.
+     */
+    public static createTransactionFactories(
+        networkType: NetworkType,
+        deadline: Deadline,
+        maxFee: UInt64,
+    ): {
+        remoteTransactionFactory: (keyAccount: KeyAccount, action: LinkAction) => AccountKeyLinkTransaction;
+        vrfTransactionFactory: (keyAccount: KeyAccount, action: LinkAction) => VrfKeyLinkTransaction;
+        votingKeyTransactionFactory: (account: VotingKeyAccount, action: LinkAction) => VotingKeyLinkTransaction;
+    } {
+        return {
+            remoteTransactionFactory: ({ publicKey }, action) =>
+                AccountKeyLinkTransaction.create(deadline, publicKey, action, networkType, maxFee),
+            vrfTransactionFactory: ({ publicKey }, action) =>
+                VrfKeyLinkTransaction.create(deadline, publicKey, action, networkType, maxFee),
+            votingKeyTransactionFactory: (account, action) =>
+                VotingKeyLinkTransaction.create(
+                    deadline,
+                    account.publicKey,
+                    account.startEpoch,
+                    account.endEpoch,
+                    action,
+                    networkType,
+                    1,
+                    maxFee,
+                ),
+        };
     }
+
     public async createTransactions({
         presetData,
         nodeAccount,
@@ -109,25 +141,12 @@ export class LinkService implements TransactionFactory {
         maxFee,
         latestFinalizedBlockEpoch,
     }: LinkServiceTransactionFactoryParams): Promise<Transaction[]> {
-        const networkType = presetData.networkType;
         const nodeName = nodeAccount.name;
-
-        const remoteTransactionFactory = ({ publicKey }: KeyAccount, action: LinkAction): AccountKeyLinkTransaction =>
-            AccountKeyLinkTransaction.create(deadline, publicKey, action, networkType, maxFee);
-        const vrfTransactionFactory = ({ publicKey }: KeyAccount, action: LinkAction): VrfKeyLinkTransaction =>
-            VrfKeyLinkTransaction.create(deadline, publicKey, action, networkType, maxFee);
-        const votingKeyTransactionFactory = (account: VotingKeyAccount, action: LinkAction): VotingKeyLinkTransaction => {
-            return VotingKeyLinkTransaction.create(
-                deadline,
-                account.publicKey,
-                account.startEpoch,
-                account.endEpoch,
-                action,
-                networkType,
-                1,
-                maxFee,
-            );
-        };
+        const { remoteTransactionFactory, vrfTransactionFactory, votingKeyTransactionFactory } = LinkService.createTransactionFactories(
+            presetData.networkType,
+            deadline,
+            maxFee,
+        );
 
         logger.info(`Creating transactions for node: ${nodeName}, ca/main account: ${mainAccountInfo.address.plain()}`);
         const transactions = await new LinkTransactionGenericFactory(this.params).createGenericTransactions(
@@ -236,10 +255,7 @@ export class LinkTransactionGenericFactory {
             const alreadyLinkedAccount = remainingVotingKeys.find((a) =>
                 LinkTransactionGenericFactory.overlapsVotingAccounts(accountTobeLinked, a),
             );
-            const isAlreadyLinkedSameAccount =
-                alreadyLinkedAccount?.publicKey.toUpperCase() === accountTobeLinked.publicKey.toUpperCase() &&
-                alreadyLinkedAccount?.startEpoch === accountTobeLinked.startEpoch &&
-                alreadyLinkedAccount?.endEpoch === accountTobeLinked.endEpoch;
+            const isAlreadyLinkedSameAccount = LinkTransactionGenericFactory.isSameVotingAccount(accountTobeLinked, alreadyLinkedAccount);
 
             let addTransaction = !isAlreadyLinkedSameAccount;
             if (alreadyLinkedAccount && !isAlreadyLinkedSameAccount) {
@@ -288,10 +304,7 @@ export class LinkTransactionGenericFactory {
             const alreadyLinkedAccount = remainingVotingKeys.find((a) =>
                 LinkTransactionGenericFactory.overlapsVotingAccounts(accountTobeLinked, a),
             );
-            const isAlreadyLinkedSameAccount =
-                alreadyLinkedAccount?.publicKey.toUpperCase() === accountTobeLinked.publicKey.toUpperCase() &&
-                alreadyLinkedAccount?.startEpoch === accountTobeLinked.startEpoch &&
-                alreadyLinkedAccount?.endEpoch === accountTobeLinked.endEpoch;
+            const isAlreadyLinkedSameAccount = LinkTransactionGenericFactory.isSameVotingAccount(accountTobeLinked, alreadyLinkedAccount);
 
             if (alreadyLinkedAccount && isAlreadyLinkedSameAccount) {
                 if (await this.confirmUnlink(accountName, alreadyLinkedAccount, print)) {
@@ -313,6 +326,10 @@ export class LinkTransactionGenericFactory {
         return x.endEpoch >= y.startEpoch && x.startEpoch <= y.endEpoch;
     }
 
+    public static isSameVotingAccount(x: VotingKeyAccount, y: VotingKeyAccount | undefined): boolean {
+        return y?.publicKey.toUpperCase() === x.publicKey.toUpperCase() && y?.startEpoch === x.startEpoch && y?.endEpoch === x.endEpoch;
+    }
+
     private async addTransaction<A extends KeyAccount, T>(
         alreadyLinkedAccount: A | undefined,
         transactionFactory: (transaction: A, action: LinkAction) => T,
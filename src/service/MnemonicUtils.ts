@@ -0,0 +1,117 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { mnemonicToSeedSync, validateMnemonic, wordlists } from 'bip39';
+import { createHmac } from 'crypto';
+import { existsSync } from 'fs';
+import { NetworkType } from 'symbol-sdk';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
+import { KeyName } from './ConfigService';
+
+/**
+ * It derives the bootstrap keys from a BIP39 mnemonic using SLIP-10 ed25519 hardened derivation paths.
+ *
+ * The paths are m/44'/<coin>'/<account>'/<change>'/<index>' where coin is 4343 for mainnet and 1 for the other networks:
+ *
+ * - Node keys: m/44'/<coin>'/<nodeIndex>'/0'/<keyIndex>'. The main key is the account a Symbol wallet derives for the same mnemonic.
+ * - Nemesis signer: m/44'/<coin>'/0'/1'/0'.
+ * - Nemesis mosaic accounts: m/44'/<coin>'/<mosaicIndex>'/2'/<accountIndex>'.
+ * - Sink address and nemesis generation hash seed: m/44'/<coin>'/0'/3'/0' and m/44'/<coin>'/0'/4'/0'.
+ */
+export class MnemonicUtils {
+    private static readonly hardenedOffset = 0x80000000;
+
+    /**
+     * It loads a mnemonic from a text file.
+     *
+     * @param mnemonicFile the file with the mnemonic words.
+     */
+    public static loadMnemonicFile(mnemonicFile: string): string {
+        if (!existsSync(mnemonicFile)) {
+            throw new KnownError(`Mnemonic file ${mnemonicFile} doesn't exist!`);
+        }
+        return BootstrapUtils.loadFileAsText(mnemonicFile).trim();
+    }
+
+    /**
+     * It creates the BIP39 seed of a mnemonic. The mnemonic is validated against the BIP39 english wordlist and checksum.
+     *
+     * @param mnemonic the mnemonic words.
+     * @param passphrase the optional BIP39 passphrase.
+     */
+    public static toSeed(mnemonic: string, passphrase = ''): Buffer {
+        const words = mnemonic.trim().split(/\s+/);
+        if (!validateMnemonic(words.join(' '), wordlists.english)) {
+            const unknownWords = words.filter((word) => !wordlists.english.includes(word));
+            throw new KnownError(
+                unknownWords.length
+                    ? `Invalid mnemonic. Words ${unknownWords.join(', ')} are not in the BIP39 english wordlist.`
+                    : 'Invalid mnemonic. The number of words or the BIP39 checksum is invalid.',
+            );
+        }
+        return mnemonicToSeedSync(words.join(' '), passphrase);
+    }
+
+    /**
+     * It derives a private key following SLIP-10 for ed25519. Only hardened paths are supported.
+     *
+     * @param seed the BIP39 seed.
+     * @param path the derivation path, like m/44'/4343'/0'/0'/0'
+     */
+    public static derivePrivateKey(seed: Buffer, path: string): string {
+        const segments = path.split('/');
+        if (segments[0] !== 'm' || segments.slice(1).some((segment) => !/^\d+'$/.test(segment))) {
+            throw new KnownError(`Invalid derivation path ${path}. Only hardened paths like m/44'/4343'/0'/0'/0' are supported.`);
+        }
+        let digest = createHmac('sha512', 'ed25519 seed').update(seed).digest();
+        segments.slice(1).forEach((segment) => {
+            const index = Buffer.alloc(4);
+            index.writeUInt32BE(parseInt(segment, 10) + MnemonicUtils.hardenedOffset, 0);
+            digest = createHmac('sha512', digest.slice(32))
+                .update(Buffer.concat([Buffer.alloc(1), digest.slice(0, 32), index]))
+                .digest();
+        });
+        return digest.slice(0, 32).toString('hex').toUpperCase();
+    }
+
+    public static getNodeKeyPath(networkType: NetworkType, nodeIndex: number, keyName: KeyName): string {
+        const keyIndex = [KeyName.Main, KeyName.Transport, KeyName.Remote, KeyName.VRF, KeyName.Agent].indexOf(keyName);
+        if (keyIndex < 0) {
+            throw new Error(`${keyName} key cannot be derived from the mnemonic.`);
+        }
+        return MnemonicUtils.getPath(networkType, nodeIndex, 0, keyIndex);
+    }
+
+    public static getNemesisSignerPath(networkType: NetworkType): string {
+        return MnemonicUtils.getPath(networkType, 0, 1, 0);
+    }
+
+    public static getNemesisAccountPath(networkType: NetworkType, mosaicIndex: number, accountIndex: number): string {
+        return MnemonicUtils.getPath(networkType, mosaicIndex, 2, accountIndex);
+    }
+
+    public static getSinkPath(networkType: NetworkType): string {
+        return MnemonicUtils.getPath(networkType, 0, 3, 0);
+    }
+
+    public static getGenerationHashSeedPath(networkType: NetworkType): string {
+        return MnemonicUtils.getPath(networkType, 0, 4, 0);
+    }
+
+    private static getPath(networkType: NetworkType, account: number, change: number, index: number): string {
+        const coin = networkType === NetworkType.MAIN_NET ? 4343 : 1;
+        return `m/44'/${coin}'/${account}'/${change}'/${index}'`;
+    }
+}
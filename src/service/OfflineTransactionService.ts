@@ -0,0 +1,312 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { existsSync } from 'fs';
+import { prompt } from 'inquirer';
+import {
+    Account,
+    AccountKeyLinkTransaction,
+    AggregateTransaction,
+    Convert,
+    LinkAction,
+    NetworkType,
+    SignedTransaction,
+    Transaction,
+    TransactionMapping,
+    TransactionService,
+    TransactionType,
+    VotingKeyLinkTransaction,
+    VrfKeyLinkTransaction,
+} from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { CertificatePair } from '../model';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
+import { CommandUtils } from './CommandUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { KeyName } from './ConfigService';
+import { RemoteNodeService } from './RemoteNodeService';
+
+/**
+ * A transaction exported to be signed offline. The hash is set once the payload is signed.
+ */
+export interface OfflineTransaction {
+    node: string;
+    signerPublicKey: string;
+    description: string;
+    payload: string;
+    hash?: string;
+}
+
+/**
+ * The file with the unsigned or signed transactions.
+ */
+export interface OfflineTransactionsFile {
+    version: number;
+    networkType: NetworkType;
+    generationHash: string;
+    epochAdjustment: number;
+    knownRestGateways?: string[];
+    transactions: OfflineTransaction[];
+}
+
+export interface SignParams {
+    unsigned: string;
+    signed: string;
+    password?: string;
+    customPreset?: string | string[];
+    maxFeeCap?: number;
+    ready?: boolean;
+}
+
+export interface AnnounceSignedParams {
+    signed: string;
+    url: string;
+    useKnownRestGateways: boolean;
+    ready?: boolean;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It signs exported transactions in an offline machine and announces the signed payloads.
+ */
+export class OfflineTransactionService {
+    public static readonly fileVersion = 1;
+
+    // Transactions are signed offline some time after the export. The network rejects deadlines over the 6 hours max transaction lifetime.
+    public static readonly deadlineHours = 5;
+
+    // Only the node link transactions bootstrap exports can be signed, alone or wrapped in an aggregate complete transaction.
+    public static readonly signableTransactionTypes = [
+        TransactionType.ACCOUNT_KEY_LINK,
+        TransactionType.VRF_KEY_LINK,
+        TransactionType.VOTING_KEY_LINK,
+    ];
+
+    private readonly configLoader = new ConfigLoader();
+
+    public static async writeTransactionsFile(file: string, content: OfflineTransactionsFile): Promise<void> {
+        await BootstrapUtils.writeTextFile(file, JSON.stringify(content, null, 2));
+    }
+
+    public static loadTransactionsFile(file: string): OfflineTransactionsFile {
+        if (!existsSync(file)) {
+            throw new KnownError(`Transactions file ${file} doesn't exist!`);
+        }
+        let content: OfflineTransactionsFile;
+        try {
+            content = JSON.parse(BootstrapUtils.loadFileAsText(file));
+        } catch (e) {
+            throw new KnownError(`File ${file} is not a valid json file. ${e.message}`);
+        }
+        if (content.version !== OfflineTransactionService.fileVersion || !content.generationHash || !content.transactions) {
+            throw new KnownError(`File ${file} is not a transactions file exported by symbol-bootstrap.`);
+        }
+        return content;
+    }
+
+    /**
+     * It validates a transaction decoded from the file's payload. The transaction must be a link transaction or an aggregate
+     * complete of them, of the file's network and for the main account of the entry. The file's descriptions are not trusted.
+     *
+     * @param file the transactions file.
+     * @param offlineTransaction the file's entry.
+     * @param transaction the transaction decoded from the entry's payload.
+     * @param maxFeeCap the optional max fee (absolute) the transaction can pay.
+     */
+    public static validateTransaction(
+        file: OfflineTransactionsFile,
+        { node, signerPublicKey }: OfflineTransaction,
+        transaction: Transaction,
+        maxFeeCap: number | undefined,
+    ): void {
+        const prefix = `Transaction ${OfflineTransactionService.describeTransaction(transaction)} of node ${node}`;
+        const innerTransactions = transaction instanceof AggregateTransaction ? transaction.innerTransactions : [];
+        const isSignable = (t: Transaction) => OfflineTransactionService.signableTransactionTypes.includes(t.type);
+        const signable =
+            transaction.type === TransactionType.AGGREGATE_COMPLETE
+                ? innerTransactions.length > 0 && innerTransactions.every(isSignable)
+                : isSignable(transaction);
+        if (!signable) {
+            throw new KnownError(
+                `${prefix} cannot be signed. Only key link transactions or aggregate complete transactions of them are allowed.`,
+            );
+        }
+        if ([transaction, ...innerTransactions].some((t) => t.networkType !== file.networkType)) {
+            throw new KnownError(`${prefix} is not a ${NetworkType[file.networkType]} transaction.`);
+        }
+        if (
+            (transaction.signer && transaction.signer.publicKey !== signerPublicKey) ||
+            innerTransactions.some((t) => t.signer?.publicKey !== signerPublicKey)
+        ) {
+            throw new KnownError(`${prefix} is not signed by the node's main account ${signerPublicKey}.`);
+        }
+        if (maxFeeCap !== undefined && transaction.maxFee.compact() > maxFeeCap) {
+            throw new KnownError(`${prefix} max fee is over the max fee cap ${maxFeeCap}.`);
+        }
+    }
+
+    /**
+     * It describes a transaction from its decoded fields.
+     *
+     * @param transaction the decoded transaction.
+     */
+    public static describeTransaction(transaction: Transaction): string {
+        const maxFee = transaction.maxFee.compact() ? ` - MaxFee ${transaction.maxFee.compact()} (absolute)` : '';
+        if (transaction instanceof AggregateTransaction) {
+            return `${transaction.constructor.name} [${transaction.innerTransactions
+                .map((t) => OfflineTransactionService.describeTransaction(t))
+                .join(', ')}]${maxFee}`;
+        }
+        if (
+            transaction instanceof AccountKeyLinkTransaction ||
+            transaction instanceof VrfKeyLinkTransaction ||
+            transaction instanceof VotingKeyLinkTransaction
+        ) {
+            const epochs =
+                transaction instanceof VotingKeyLinkTransaction
+                    ? `, start epoch ${transaction.startEpoch}, end epoch ${transaction.endEpoch}`
+                    : '';
+            return `${transaction.constructor.name} ${LinkAction[transaction.linkAction]} public key ${
+                transaction.linkedPublicKey
+            }${epochs}${maxFee}`;
+        }
+        return `${transaction.constructor.name}${maxFee}`;
+    }
+
+    /**
+     * It signs the exported transactions. The main private keys are taken from the custom preset or prompted.
+     *
+     * @param params the sign params.
+     */
+    public async sign(params: SignParams): Promise<OfflineTransactionsFile> {
+        const file = OfflineTransactionService.loadTransactionsFile(params.unsigned);
+        const networkType = file.networkType;
+        const customPreset = this.configLoader.loadCustomPreset(params.customPreset, params.password);
+        const signers: Record<string, CertificatePair> = {};
+        (customPreset.nodes || []).forEach((node) => {
+            if (node.mainPrivateKey) {
+                const account = Account.createFromPrivateKey(node.mainPrivateKey, networkType);
+                signers[account.publicKey] = { publicKey: account.publicKey, privateKey: account.privateKey };
+            }
+        });
+        const now = Date.now() - file.epochAdjustment * 1000;
+        const transactions: OfflineTransaction[] = [];
+        for (const offlineTransaction of file.transactions) {
+            const { node, signerPublicKey } = offlineTransaction;
+            const transaction = TransactionMapping.createFromPayload(offlineTransaction.payload);
+            const description = OfflineTransactionService.describeTransaction(transaction);
+            OfflineTransactionService.validateTransaction(file, offlineTransaction, transaction, params.maxFeeCap);
+            if (offlineTransaction.hash) {
+                logger.warn(`Transaction ${description} of node ${node} is already signed. Reusing...`);
+                transactions.push(offlineTransaction);
+                continue;
+            }
+            if (transaction.deadline.adjustedValue < now) {
+                throw new KnownError(`Transaction ${description} of node ${node} has expired. Export the transactions again.`);
+            }
+            if (!params.ready && !(await this.confirm('sign', `${description} of node ${node} for main account ${signerPublicKey}`))) {
+                throw new KnownError(`Transaction ${description} of node ${node} has not been signed. No signed file has been written.`);
+            }
+            const signer = signers[signerPublicKey] || (signers[signerPublicKey] = { publicKey: signerPublicKey });
+            const privateKey = await CommandUtils.resolvePrivateKey(networkType, signer, KeyName.Main, node, 'signing a transaction');
+            const signedTransaction = Account.createFromPrivateKey(privateKey, networkType).sign(transaction, file.generationHash);
+            logger.info(`Transaction ${description} of node ${node} has been signed. Hash: ${signedTransaction.hash}`);
+            transactions.push({ ...offlineTransaction, payload: signedTransaction.payload, hash: signedTransaction.hash });
+        }
+        const signedFile = { ...file, transactions };
+        await OfflineTransactionService.writeTransactionsFile(params.signed, signedFile);
+        logger.info(`${transactions.length} signed transactions have been written to ${params.signed}.`);
+        return signedFile;
+    }
+
+    /**
+     * It announces the signed transactions and waits for their confirmation. It returns the hashes of the confirmed transactions.
+     *
+     * @param params the announce params.
+     */
+    public async announce(params: AnnounceSignedParams): Promise<string[]> {
+        const file = OfflineTransactionService.loadTransactionsFile(params.signed);
+        const notSigned = file.transactions.filter((t) => !t.hash);
+        if (notSigned.length) {
+            throw new KnownError(
+                `${notSigned.length} transactions of file ${params.signed} are not signed. Run 'symbol-bootstrap sign' in the offline machine first.`,
+            );
+        }
+        const url = params.url.replace(/\/$/, '');
+        const urls = (params.useKnownRestGateways && file.knownRestGateways) || [url];
+        const repositoryFactory = (await new RemoteNodeService().getBestRepositoryInfo(urls)).repositoryFactory;
+        const generationHash = await repositoryFactory.getGenerationHash().toPromise();
+        if (generationHash?.toUpperCase() !== file.generationHash.toUpperCase()) {
+            throw new KnownError(
+                `You are connecting to the wrong network. Expected generation hash is ${file.generationHash} but got ${generationHash}`,
+            );
+        }
+        const transactionService = new TransactionService(
+            repositoryFactory.createTransactionRepository(),
+            repositoryFactory.createReceiptRepository(),
+        );
+        const listener = repositoryFactory.createListener();
+        await listener.open();
+        const confirmedHashes: string[] = [];
+        try {
+            for (const offlineTransaction of file.transactions) {
+                const { node, signerPublicKey, payload } = offlineTransaction;
+                // The stored hash is not trusted, the listener waits for the hash of the announced payload.
+                const hash = Transaction.createTransactionHash(payload, Array.from(Convert.hexToUint8(file.generationHash)));
+                const transaction = TransactionMapping.createFromPayload(payload);
+                OfflineTransactionService.validateTransaction(file, offlineTransaction, transaction, undefined);
+                if (!transaction.signer) {
+                    throw new KnownError(
+                        `Transaction ${OfflineTransactionService.describeTransaction(transaction)} of node ${node} is not signed.`,
+                    );
+                }
+                const transactionDescription = `${OfflineTransactionService.describeTransaction(
+                    transaction,
+                )} - Hash: ${hash} of node ${node}`;
+                if (!params.ready && !(await this.confirm('announce', transactionDescription))) {
+                    logger.info(`Ignoring transaction ${hash}`);
+                    continue;
+                }
+                const signedTransaction = new SignedTransaction(payload, hash, signerPublicKey, transaction.type, file.networkType);
+                try {
+                    logger.info(`Announcing ${transactionDescription}`);
+                    await transactionService.announce(signedTransaction, listener).toPromise();
+                    logger.info(`${transactionDescription} has been confirmed`);
+                    confirmedHashes.push(signedTransaction.hash);
+                } catch (e) {
+                    logger.error(`Transaction ${transactionDescription} failed!! ${e.message}`);
+                }
+            }
+        } finally {
+            listener.close();
+        }
+        return confirmedHashes;
+    }
+
+    private async confirm(action: string, transactionDescription: string): Promise<boolean> {
+        const { value } = await prompt([
+            {
+                name: 'value',
+                message: `Do you want to ${action} ${transactionDescription}?`,
+                type: 'confirm',
+                default: true,
+            },
+        ]);
+        return value;
+    }
+}
@@ -0,0 +1,139 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+import { ConfigPreset, CustomPreset, DeepPartial, NodePreset } from '../model';
+import { KnownError } from './BootstrapUtils';
+import { PresetValidator } from './PresetValidator';
+
+/**
+ * One of the presets merged when resolving the final preset, like presets/shared.yml or the custom preset file.
+ */
+export interface PresetLayer {
+    source: string;
+    version?: number; // the custom preset file version before migrating it.
+    outdated?: boolean; // the custom preset migrations changed the file's content.
+    preset: CustomPreset | undefined;
+}
+
+/**
+ * A layer that set or overrode a property.
+ */
+export interface PropertyOrigin {
+    source: string;
+    value: any;
+}
+
+export interface PropertyExplanation {
+    property: string;
+    node?: string;
+    value: any;
+    origins: PropertyOrigin[];
+}
+
+/**
+ * It records the layers merged by ConfigLoader.createPresetData so it can explain where each resolved value came from.
+ *
+ * Node properties are resolved from the node first and then from the root of the preset, the same way the templates do.
+ */
+export class PresetProvenance {
+    public static readonly dynamicDefaultsSource = 'dynamic node defaults';
+
+    private readonly layers: PresetLayer[] = [];
+    private readonly nodeDefaults: DeepPartial<NodePreset>[] = [];
+    private nodeRepeats: number[] = [];
+
+    /**
+     * It records the layers in merge order. The layers are cloned as ConfigLoader.mergePresets modifies them.
+     *
+     * @param layers the merged layers, the last one wins.
+     */
+    public addLayers(layers: PresetLayer[]): void {
+        // Inflation is not merged, the last layer defining it replaces the previous ones.
+        const inflationLayer = _.findLast(layers, (layer) => layer.preset?.inflation);
+        layers
+            .filter((layer) => layer.preset)
+            .forEach((layer) => {
+                const preset = _.cloneDeep(layer.preset);
+                if (layer !== inflationLayer) {
+                    delete preset?.inflation;
+                }
+                this.layers.push({ source: layer.source, preset });
+            });
+    }
+
+    /**
+     * It records the dynamic defaults applied to the nodes before the repeat expansion.
+     *
+     * @param nodes the nodes before the defaults are applied.
+     * @param defaults the defaults of each node.
+     */
+    public addNodeDefaults(nodes: NodePreset[], defaults: DeepPartial<NodePreset>[]): void {
+        this.nodeRepeats = nodes.map((node) => (node.repeat === undefined ? 1 : node.repeat));
+        defaults.forEach((nodeDefaults, index) => {
+            this.nodeDefaults[index] = _.omit(nodeDefaults, Object.keys(nodes[index]));
+        });
+    }
+
+    /**
+     * It explains the final value of a property listing every layer that set or overrode it, in order.
+     *
+     * @param presetData the resolved preset.
+     * @param property the property path, like maxTransactionsPerBlock or nemesis.mosaics[0].name
+     * @param nodeName the optional node name when the property is resolved for a node.
+     */
+    public explain(presetData: ConfigPreset, property: string, nodeName?: string): PropertyExplanation {
+        const origins: PropertyOrigin[] = this.getOrigins(property);
+        let value = _.get(presetData, property);
+        if (nodeName) {
+            const nodes = presetData.nodes || [];
+            const nodeIndex = nodes.findIndex((node) => node.name === nodeName);
+            if (nodeIndex < 0) {
+                throw new KnownError(`Node ${nodeName} could not be found. Possible values are: ${nodes.map((n) => n.name).join(', ')}`);
+            }
+            const originalIndex = this.getOriginalIndex(nodeIndex);
+            const nodeDefault = _.get(this.nodeDefaults[originalIndex], property);
+            if (nodeDefault !== undefined) {
+                origins.push({ source: PresetProvenance.dynamicDefaultsSource, value: nodeDefault });
+            }
+            origins.push(...this.getOrigins(`nodes[${originalIndex}].${property}`));
+            const nodeValue = _.get(nodes[nodeIndex], property);
+            if (nodeValue !== undefined) {
+                value = nodeValue;
+            }
+        }
+        if (value === undefined && !origins.length) {
+            const closestKey = PresetValidator.findClosestKey(property, Object.keys(presetData));
+            throw new KnownError(`Property ${property} is not defined in the preset.${closestKey ? ` Did you mean '${closestKey}'?` : ''}`);
+        }
+        return { property, node: nodeName, value, origins };
+    }
+
+    private getOrigins(path: string): PropertyOrigin[] {
+        return this.layers
+            .map((layer) => ({ source: layer.source, value: _.get(layer.preset, path) }))
+            .filter((origin) => origin.value !== undefined);
+    }
+
+    // The repeat expansion creates one node per repeat, the layers know the nodes before the expansion.
+    private getOriginalIndex(expandedIndex: number): number {
+        let count = 0;
+        const originalIndex = this.nodeRepeats.findIndex((repeat) => {
+            count += repeat;
+            return expandedIndex < count;
+        });
+        return originalIndex < 0 ? expandedIndex : originalIndex;
+    }
+}
@@ -0,0 +1,329 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+import { join } from 'path';
+import { ConfigPreset, CustomPreset } from '../model';
+import { BootstrapUtils, KnownError, Password } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+
+/**
+ * A problem found when validating a preset. The path is the yaml path of the invalid value, like nodes[0].nodePort
+ */
+export interface PresetValidationError {
+    source?: string;
+    path: string;
+    message: string;
+}
+
+/**
+ * It validates custom presets against the json schema created from the CustomPreset interface (npm run create-schema).
+ */
+export class PresetValidator {
+    private static readonly schemas: Record<string, any> = {};
+
+    constructor(private readonly root: string) {}
+
+    public static getSchemaLocation(root: string): string {
+        return join(root, 'presets', 'schema.json');
+    }
+
+    private getSchema(): any {
+        const schemaLocation = PresetValidator.getSchemaLocation(this.root);
+        if (!PresetValidator.schemas[schemaLocation]) {
+            PresetValidator.schemas[schemaLocation] = JSON.parse(BootstrapUtils.loadFileAsText(schemaLocation));
+        }
+        return PresetValidator.schemas[schemaLocation];
+    }
+
+    /**
+     * It validates the custom preset throwing a KnownError listing all the problems if the preset is not valid.
+     *
+     * @param customPreset the custom preset to validate.
+     * @param source the description of the preset used in the error message, like the file name.
+     */
+    public validateCustomPreset(customPreset: CustomPreset | undefined, source: string): void {
+        const errors = this.validateSchema(customPreset);
+        if (errors.length) {
+            throw new KnownError(`Custom preset ${source} is not valid:\n${PresetValidator.toErrorLines(errors)}`);
+        }
+    }
+
+    /**
+     * It resolves the preset the same way the config command does (preset + assembly + custom preset + repeat expansion)
+     * returning the schema and cross-field problems. No keys, certificates or files are created.
+     *
+     * @param params the preset, assembly and custom preset to validate.
+     */
+    public validate(params: {
+        password: Password;
+        preset?: string;
+        presetsFolder?: string;
+        assembly?: string;
+        customPreset?: string | string[];
+        customPresetObject?: CustomPreset;
+    }): PresetValidationError[] {
+        const configLoader = new ConfigLoader();
+        const schemaErrors = [
+            ..._.flatMap(configLoader.loadCustomPresetFiles(params.customPreset, params.password), (layer) =>
+                this.validateSchema(layer.preset).map((error) => ({ source: layer.source, ...error })),
+            ),
+            ...this.validateSchema(params.customPresetObject),
+        ];
+        if (schemaErrors.length) {
+            return schemaErrors;
+        }
+        const presetData = configLoader.createPresetData({ ...params, root: this.root });
+        return this.validatePresetData(presetData);
+    }
+
+    /**
+     * It validates the rules between fields of a resolved preset that the schema cannot express.
+     *
+     * @param presetData the resolved preset.
+     */
+    public validatePresetData(presetData: ConfigPreset): PresetValidationError[] {
+        const errors: PresetValidationError[] = [];
+        if (presetData.votingKeyDesiredFutureLifetime > presetData.votingKeyDesiredLifetime) {
+            errors.push({
+                path: 'votingKeyDesiredFutureLifetime',
+                message: `It must not be greater than votingKeyDesiredLifetime (${presetData.votingKeyDesiredLifetime}) but got ${presetData.votingKeyDesiredFutureLifetime}.`,
+            });
+        }
+        if (presetData.finalizationThreshold > presetData.finalizationSize) {
+            errors.push({
+                path: 'finalizationThreshold',
+                message: `It must not be greater than finalizationSize (${presetData.finalizationSize}) but got ${presetData.finalizationThreshold}.`,
+            });
+        }
+        (presetData.nodes || []).forEach((node, index) => {
+            const finalizationSize = node.finalizationSize ?? presetData.finalizationSize;
+            const finalizationThreshold = node.finalizationThreshold ?? presetData.finalizationThreshold;
+            if (
+                (node.finalizationSize !== undefined || node.finalizationThreshold !== undefined) &&
+                finalizationThreshold > finalizationSize
+            ) {
+                errors.push({
+                    path: `nodes[${index}].finalizationThreshold`,
+                    message: `It must not be greater than finalizationSize (${finalizationSize}) but got ${finalizationThreshold}.`,
+                });
+            }
+        });
+
+        const usedNames: Record<string, string> = {};
+        const services: Record<string, { name: string }[] | undefined> = {
+            databases: presetData.databases,
+            nodes: presetData.nodes,
+            gateways: presetData.gateways,
+            explorers: presetData.explorers,
+            wallets: presetData.wallets,
+            faucets: presetData.faucets,
+        };
+        Object.entries(services).forEach(([serviceType, serviceList]) => {
+            (serviceList || []).forEach((service, index) => {
+                const path = `${serviceType}[${index}].name`;
+                if (!service.name) {
+                    return;
+                }
+                if (usedNames[service.name]) {
+                    errors.push({ path, message: `Name '${service.name}' is already used by ${usedNames[service.name]}.` });
+                } else {
+                    usedNames[service.name] = path;
+                }
+            });
+        });
+
+        (presetData.gateways || []).forEach((gateway, index) => {
+            const path = `gateways[${index}].apiNodeName`;
+            const node = (presetData.nodes || []).find((node) => node.name === gateway.apiNodeName);
+            if (!node) {
+                errors.push({ path, message: `There is no node with name '${gateway.apiNodeName}'.` });
+            } else if (!node.api) {
+                errors.push({ path, message: `Node '${gateway.apiNodeName}' is not an api node (api: true).` });
+            }
+        });
+        return errors;
+    }
+
+    public static toErrorLines(errors: PresetValidationError[]): string {
+        return errors.map((e) => `  - ${e.source ? `${e.source} ` : ''}${e.path}: ${e.message}`).join('\n');
+    }
+
+    /**
+     * It validates the custom preset's structure and types returning the found problems.
+     *
+     * @param customPreset the custom preset to validate.
+     */
+    public validateSchema(customPreset: CustomPreset | undefined): PresetValidationError[] {
+        if (customPreset === undefined || customPreset === null) {
+            return [];
+        }
+        const schema = this.getSchema();
+        const errors: PresetValidationError[] = [];
+        this.validateValue(schema, schema, customPreset, '', errors);
+        return errors;
+    }
+
+    private validateValue(rootSchema: any, valueSchema: any, value: any, path: string, errors: PresetValidationError[]): void {
+        const schema = this.resolveRef(rootSchema, valueSchema);
+        // Values like '{{add $index 7900}}' are resolved when the preset is expanded.
+        if (_.isString(value) && value.indexOf('{{') > -1) {
+            return;
+        }
+        // Empty yaml values like 'beneficiaryAddress:' are allowed.
+        if (value === null) {
+            return;
+        }
+        if (schema.anyOf) {
+            const matches = (schema.anyOf as any[]).some((option) => {
+                const optionErrors: PresetValidationError[] = [];
+                this.validateValue(rootSchema, option, value, path, optionErrors);
+                return !optionErrors.length;
+            });
+            if (!matches) {
+                const expected = _.uniq((schema.anyOf as any[]).map((option) => this.describe(rootSchema, option))).join(' or ');
+                errors.push({ path: this.toPath(path), message: `Expected ${expected} but got ${this.describeValue(value)}.` });
+            }
+            return;
+        }
+        if (schema.enum) {
+            // String enums like rewardProgram or privateKeySecurityMode are resolved ignoring case.
+            const isOption = (option: any) =>
+                option === value || (_.isString(option) && _.isString(value) && option.toLowerCase() === value.toLowerCase());
+            if (!(schema.enum as any[]).some(isOption)) {
+                errors.push({
+                    path: this.toPath(path),
+                    message: `Expected one of ${(schema.enum as any[]).join(', ')} but got ${this.describeValue(value)}.`,
+                });
+            }
+            return;
+        }
+        if (schema.type) {
+            const types: string[] = _.isArray(schema.type) ? schema.type : [schema.type];
+            const valueType = this.getType(value);
+            if (!types.find((type) => type === valueType || (type === 'number' && valueType === 'integer'))) {
+                errors.push({ path: this.toPath(path), message: `Expected ${types.join(' or ')} but got ${this.describeValue(value)}.` });
+                return;
+            }
+        }
+        if (_.isArray(value)) {
+            if (schema.items) {
+                value.forEach((item, index) => this.validateValue(rootSchema, schema.items, item, `${path}[${index}]`, errors));
+            }
+            return;
+        }
+        if (_.isObject(value)) {
+            const properties = schema.properties || {};
+            Object.entries(value).forEach(([key, propertyValue]) => {
+                const propertyPath = path ? `${path}.${key}` : key;
+                if (properties[key]) {
+                    this.validateValue(rootSchema, properties[key], propertyValue, propertyPath, errors);
+                } else if (_.isObject(schema.additionalProperties)) {
+                    this.validateValue(rootSchema, schema.additionalProperties, propertyValue, propertyPath, errors);
+                } else if (schema.additionalProperties === false) {
+                    const closestKey = PresetValidator.findClosestKey(key, Object.keys(properties));
+                    errors.push({
+                        path: propertyPath,
+                        message: closestKey ? `Unknown property. Did you mean '${closestKey}'?` : 'Unknown property.',
+                    });
+                }
+            });
+            ((schema.required as string[]) || [])
+                .filter((key) => !(key in value))
+                .forEach((key) => {
+                    errors.push({ path: path ? `${path}.${key}` : key, message: 'Required property is missing.' });
+                });
+        }
+    }
+
+    private resolveRef(rootSchema: any, schema: any): any {
+        if (!schema.$ref) {
+            return schema;
+        }
+        const definitionName = decodeURIComponent((schema.$ref as string).replace('#/definitions/', ''));
+        const definition = rootSchema.definitions?.[definitionName];
+        if (!definition) {
+            throw new Error(`Definition ${schema.$ref} could not be found in the preset schema!`);
+        }
+        return this.resolveRef(rootSchema, definition);
+    }
+
+    private describe(rootSchema: any, valueSchema: any): string {
+        const schema = this.resolveRef(rootSchema, valueSchema);
+        if (schema.enum) {
+            return `one of ${(schema.enum as any[]).join(', ')}`;
+        }
+        if (schema.anyOf) {
+            return (schema.anyOf as any[]).map((option) => this.describe(rootSchema, option)).join(' or ');
+        }
+        return _.isArray(schema.type) ? schema.type.join(' or ') : schema.type || 'any';
+    }
+
+    private getType(value: any): string {
+        if (value === null) {
+            return 'null';
+        }
+        if (_.isArray(value)) {
+            return 'array';
+        }
+        if (_.isNumber(value)) {
+            return Number.isInteger(value) ? 'integer' : 'number';
+        }
+        return typeof value;
+    }
+
+    private describeValue(value: any): string {
+        const type = this.getType(value);
+        if (type === 'string') {
+            return `string '${value}'`;
+        }
+        if (type === 'integer' || type === 'number' || type === 'boolean') {
+            return `${type === 'integer' ? 'number' : type} ${value}`;
+        }
+        return type;
+    }
+
+    private toPath(path: string): string {
+        return path || '<root>';
+    }
+
+    /**
+     * It finds the most similar key using the Levenshtein distance. Undefined if no key is similar enough.
+     *
+     * @param key the unknown key
+     * @param validKeys the possible keys.
+     */
+    public static findClosestKey(key: string, validKeys: string[]): string | undefined {
+        const maxDistance = Math.max(2, Math.floor(key.length / 3));
+        const candidates = validKeys
+            .map((validKey) => ({ validKey, distance: PresetValidator.distance(key.toLowerCase(), validKey.toLowerCase()) }))
+            .filter((c) => c.distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance);
+        return candidates[0]?.validKey;
+    }
+
+    private static distance(a: string, b: string): number {
+        let previousRow = _.range(b.length + 1);
+        for (let i = 1; i <= a.length; i++) {
+            const currentRow = [i];
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost));
+            }
+            previousRow = currentRow;
+        }
+        return previousRow[b.length];
+    }
+}
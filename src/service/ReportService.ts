@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { promises as fsPromises, readFileSync } from 'fs';
+import { existsSync, promises as fsPromises, readFileSync } from 'fs';
 import * as _ from 'lodash';
 import { join } from 'path';
 import Logger from '../logger/Logger';
@@ -97,10 +97,21 @@ export class ReportService {
         return sections;
     }
 
+    // Descriptions in the preset folder, like the ones for custom properties in external presets, override the bundled ones.
+    private async loadDescriptions(presetData: ConfigPreset): Promise<any> {
+        const descriptions = await BootstrapUtils.loadYaml(join(this.root, 'presets', 'descriptions.yml'), false);
+        const presetFolder = ConfigLoader.getPresetFolder(this.root, presetData.preset, presetData.presetsFolder);
+        const presetDescriptionsLocation = join(presetFolder, 'descriptions.yml');
+        if (presetFolder === join(this.root, 'presets', presetData.preset) || !existsSync(presetDescriptionsLocation)) {
+            return descriptions;
+        }
+        return _.merge(descriptions, await BootstrapUtils.loadYaml(presetDescriptionsLocation, false));
+    }
+
     private async createReportsPerNode(presetData: ConfigPreset): Promise<ReportNode[]> {
         const workingDir = process.cwd();
         const target = join(workingDir, this.params.target);
-        const descriptions = await BootstrapUtils.loadYaml(join(this.root, 'presets', 'descriptions.yml'), false);
+        const descriptions = await this.loadDescriptions(presetData);
         const promises: Promise<ReportNode>[] = (presetData.nodes || []).map(async (n) => {
             const resourcesFolder = join(BootstrapUtils.getTargetNodesFolder(target, false, n.name), 'server-config', 'resources');
             const files = await fsPromises.readdir(resourcesFolder);
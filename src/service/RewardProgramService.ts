@@ -30,9 +30,13 @@ export type RewardProgramParams = {
     password?: string;
     url: string;
     maxFee?: number;
+    feeStrategy?: string;
+    maxFeeCap?: number;
     useKnownRestGateways: boolean;
     ready?: boolean;
-    customPreset?: string;
+    customPreset?: string | string[];
+    exportUnsigned?: string;
+    aggregateBonded?: boolean;
 };
 
 export interface RewardProgramServiceTransactionFactoryParams {
@@ -80,17 +84,7 @@ export class RewardProgramService implements TransactionFactory {
             logger.warn('This network does not have a reward program controller public key. Nodes cannot be registered.');
             return;
         }
-        await new AnnounceService().announce(
-            this.params.url,
-            this.params.maxFee,
-            this.params.useKnownRestGateways,
-            this.params.ready,
-            this.params.target,
-            this.configLoader.mergePresets(presetData, customPreset),
-            addresses,
-            this,
-            '1M+',
-        );
+        await new AnnounceService().announce(this.params, this.configLoader.mergePresets(presetData, customPreset), addresses, this, '1M+');
     }
 
     async createTransactions({
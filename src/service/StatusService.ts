@@ -0,0 +1,196 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AccountInfo, Address, Currency, NodeInfo, RepositoryFactory, RoleType, UInt64 } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { Addresses, ConfigPreset, NodeAccount } from '../model';
+import { ConfigLoader } from './ConfigLoader';
+import { RemoteNodeService, RepositoryInfo } from './RemoteNodeService';
+
+export interface StatusParams {
+    target: string;
+}
+
+/**
+ * The live status of a node. Balances are relative amounts of the network's harvesting currency.
+ */
+export interface NodeStatus {
+    name: string;
+    url?: string;
+    error?: string;
+    height?: string;
+    finalizedHeight?: string;
+    finalizationEpoch?: number;
+    peers?: number;
+    roles?: string[];
+    remote?: string;
+    vrf?: string;
+    voting?: string[];
+    balance?: number;
+    minHarvesterBalance?: number;
+    minVoterBalance?: number;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It queries the chain, finalization, node and account information of each node in the target's preset.
+ *
+ * Nodes with an exposed rest gateway are queried directly, peer only nodes are queried through the preset's known rest gateways.
+ */
+export class StatusService {
+    private readonly configLoader = new ConfigLoader();
+
+    constructor(private readonly params: StatusParams) {}
+
+    public async run(): Promise<NodeStatus[]> {
+        const presetData = this.configLoader.loadExistingPresetData(this.params.target, false);
+        const addresses = this.configLoader.loadExistingAddresses(this.params.target, false);
+        const statuses: NodeStatus[] = [];
+        for (const [index, nodePreset] of (presetData.nodes || []).entries()) {
+            const nodeAccount = addresses.nodes?.[index];
+            const url = this.getLocalRestGatewayUrl(presetData, nodePreset.name, nodePreset.restGatewayUrl);
+            const urls = url ? [url] : presetData.knownRestGateways || [];
+            if (!nodeAccount || !urls.length) {
+                statuses.push({
+                    name: nodePreset.name,
+                    error: nodeAccount ? 'The node has no rest gateway and there are no known rest gateways.' : 'The node has no accounts.',
+                });
+                continue;
+            }
+            try {
+                const repositoryInfo = await new RemoteNodeService().getBestRepositoryInfo(urls);
+                statuses.push(await this.getNodeStatus(presetData, nodeAccount, repositoryInfo, !!url));
+            } catch (e) {
+                statuses.push({ name: nodePreset.name, url: urls.join(', '), error: e.message });
+            }
+        }
+        this.logLinkMismatches(statuses, addresses);
+        return statuses;
+    }
+
+    /**
+     * It renders the statuses as a text table.
+     *
+     * @param statuses the node statuses.
+     */
+    public static toTable(statuses: NodeStatus[]): string {
+        const shortKey = (key: string | undefined): string => (key ? `${key.substring(0, 8)}...` : '-');
+        const value = (v: string | number | undefined): string => (v === undefined ? '-' : `${v}`);
+        const header = ['Node', 'Url', 'Height', 'Finalized', 'Epoch', 'Peers', 'Roles', 'Remote', 'VRF', 'Voting', 'Balance'];
+        const rows = statuses.map((s) =>
+            s.error
+                ? [s.name, value(s.url), `Error: ${s.error}`]
+                : [
+                      s.name,
+                      value(s.url),
+                      value(s.height),
+                      value(s.finalizedHeight),
+                      value(s.finalizationEpoch),
+                      value(s.peers),
+                      s.roles?.join(',') || '-',
+                      shortKey(s.remote),
+                      shortKey(s.vrf),
+                      s.voting?.map((v) => v.replace(/^(\w{8})\w+/, '$1...')).join(' ') || '-',
+                      `${value(s.balance)} (harvester min ${value(s.minHarvesterBalance)}, voter min ${value(s.minVoterBalance)})`,
+                  ],
+        );
+        // Error messages span the remaining columns.
+        const alignedRows = [header, ...rows.map((r) => (r.length === header.length ? r : r.slice(0, -1)))];
+        const widths = header.map((h, column) => Math.max(...alignedRows.map((r) => r[column]?.length || 0)));
+        return [header, ...rows]
+            .map((r) => r.map((cell, column) => (column < r.length - 1 ? cell.padEnd(widths[column]) : cell)).join(' | '))
+            .join('\n');
+    }
+
+    private async getNodeStatus(
+        presetData: ConfigPreset,
+        nodeAccount: NodeAccount,
+        { repositoryFactory, restGatewayUrl, chainInfo }: RepositoryInfo,
+        local: boolean,
+    ): Promise<NodeStatus> {
+        const nodeRepository = repositoryFactory.createNodeRepository();
+        const peers = await nodeRepository.getNodePeers().toPromise();
+        // Peer only nodes are found in the known rest gateway's peers.
+        const nodeInfo: NodeInfo | undefined = local
+            ? await nodeRepository.getNodeInfo().toPromise()
+            : peers.find((p) => p.publicKey.toUpperCase() === nodeAccount.main.publicKey.toUpperCase());
+        const harvestCurrency = (await repositoryFactory.getCurrencies().toPromise()).harvest;
+        const accountInfo = await this.getAccountInfo(repositoryFactory, Address.createFromRawAddress(nodeAccount.main.address));
+        const keys = accountInfo?.supplementalPublicKeys;
+        return {
+            name: nodeAccount.name,
+            url: restGatewayUrl,
+            height: chainInfo.height.toString(),
+            finalizedHeight: chainInfo.latestFinalizedBlock.height.toString(),
+            finalizationEpoch: chainInfo.latestFinalizedBlock.finalizationEpoch,
+            peers: local ? peers.length : undefined,
+            roles: nodeInfo?.roles.map((role) => RoleType[role]),
+            remote: keys?.linked?.publicKey,
+            vrf: keys?.vrf?.publicKey,
+            voting: keys?.voting?.map((v) => `${v.publicKey}(${v.startEpoch}-${v.endEpoch})`),
+            balance: accountInfo ? StatusService.getRelativeBalance(accountInfo, harvestCurrency) : undefined,
+            minHarvesterBalance: StatusService.toRelative(presetData.minHarvesterBalance, harvestCurrency),
+            minVoterBalance: StatusService.toRelative(presetData.minVoterBalance, harvestCurrency),
+        };
+    }
+
+    private getLocalRestGatewayUrl(presetData: ConfigPreset, nodeName: string, restGatewayUrl: string | undefined): string | undefined {
+        if (restGatewayUrl) {
+            return restGatewayUrl;
+        }
+        const gateway = presetData.gateways?.find((g) => g.apiNodeName === nodeName);
+        if (!gateway || !gateway.openPort) {
+            return undefined;
+        }
+        const port = gateway.openPort === true || gateway.openPort === 'true' ? 3000 : gateway.openPort;
+        return `http://localhost:${port}`;
+    }
+
+    private logLinkMismatches(statuses: NodeStatus[], addresses: Addresses): void {
+        statuses.forEach((status) => {
+            const nodeAccount = addresses.nodes?.find((n) => n.name === status.name);
+            if (status.error || !nodeAccount) {
+                return;
+            }
+            const expected = { remote: nodeAccount.remote?.publicKey, vrf: nodeAccount.vrf?.publicKey };
+            (['remote', 'vrf'] as const).forEach((key) => {
+                if (expected[key] && status[key] && expected[key]?.toUpperCase() !== status[key]?.toUpperCase()) {
+                    logger.warn(`Node ${status.name} linked ${key} key ${status[key]} is not the one in addresses.yml ${expected[key]}.`);
+                }
+            });
+        });
+    }
+
+    private async getAccountInfo(repositoryFactory: RepositoryFactory, address: Address): Promise<AccountInfo | undefined> {
+        try {
+            return await repositoryFactory.createAccountRepository().getAccountInfo(address).toPromise();
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    private static getRelativeBalance(accountInfo: AccountInfo, currency: Currency): number {
+        const mosaic = currency.mosaicId && accountInfo.mosaics.find((m) => currency.mosaicId?.equals(m.id));
+        return StatusService.toRelative(mosaic ? mosaic.amount : UInt64.fromUint(0), currency);
+    }
+
+    private static toRelative(amount: UInt64 | number, currency: Currency): number {
+        const absolute = typeof amount === 'number' ? amount : amount.compact();
+        return absolute / Math.pow(10, currency.divisibility);
+    }
+}
@@ -0,0 +1,200 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { Convert, Crypto } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { NodeAccount } from '../model';
+import { BootstrapUtils, KnownError, Password } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { CryptoUtils } from './CryptoUtils';
+import { LinkTransactionGenericFactory } from './LinkService';
+import { VotingKeyGenerationService } from './VotingKeyGenerationService';
+import { VotingService } from './VotingService';
+import { VotingKeyAccount, VotingUtils } from './VotingUtils';
+
+export interface VotingKeyBundleGenerateParams {
+    out: string;
+    startEpoch: number;
+    endEpoch: number;
+    workers?: number;
+}
+
+export interface VotingKeyBundleImportParams {
+    target: string;
+    password: Password;
+    bundle: string;
+    node?: string;
+}
+
+/**
+ * The manifest of a voting key bundle. The sha256 is the hex checksum of the voting key file.
+ */
+export interface VotingKeyBundleManifest extends VotingKeyAccount {
+    version: number;
+    filename: string;
+    sha256: string;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It creates voting key bundles on a standalone machine and imports them into a node of the target.
+ *
+ * A bundle is a folder with the voting key file and its manifest. The root private key is discarded once the file is created.
+ */
+export class VotingKeyBundleService {
+    public static readonly manifestFileName = 'manifest.yml';
+    public static readonly votingKeyFileName = 'private_key_tree.dat';
+    public static readonly manifestVersion = 1;
+
+    private readonly configLoader = new ConfigLoader();
+
+    public async generate({ out, startEpoch, endEpoch, workers }: VotingKeyBundleGenerateParams): Promise<VotingKeyBundleManifest> {
+        if (!Number.isInteger(startEpoch) || !Number.isInteger(endEpoch) || startEpoch < 1 || endEpoch < startEpoch) {
+            throw new KnownError(
+                `Invalid epochs ${startEpoch}-${endEpoch}. The start epoch must be 1 or greater and not after the end epoch.`,
+            );
+        }
+        const manifestLocation = join(out, VotingKeyBundleService.manifestFileName);
+        if (existsSync(manifestLocation)) {
+            throw new KnownError(`Bundle ${out} already exists. Choose another --out folder.`);
+        }
+        await BootstrapUtils.mkdir(out);
+        logger.info(`Creating voting key file of ${endEpoch - startEpoch + 1} epochs. This could take a while!`);
+        const votingPrivateKey = Convert.uint8ToHex(Crypto.randomBytes(32));
+        const votingFile = await new VotingKeyGenerationService({
+            workers,
+            onProgress: VotingService.createProgressLogger('Voting key file'),
+        }).createVotingFile(votingPrivateKey, startEpoch, endEpoch);
+        writeFileSync(join(out, VotingKeyBundleService.votingKeyFileName), votingFile);
+        const manifest: VotingKeyBundleManifest = {
+            version: VotingKeyBundleService.manifestVersion,
+            ...new VotingUtils().readVotingFile(votingFile),
+            filename: VotingKeyBundleService.votingKeyFileName,
+            sha256: VotingKeyBundleService.sha256(votingFile),
+        };
+        await BootstrapUtils.writeYaml(manifestLocation, manifest, undefined);
+        logger.info(
+            `Voting key bundle ${out} has been created. Public key ${manifest.publicKey}, start epoch ${startEpoch}, end epoch ${endEpoch}.`,
+        );
+        logger.info(`Copy it to the node's machine and run 'symbol-bootstrap votingKeys:import --bundle <folder> --node <name>'.`);
+        return manifest;
+    }
+
+    public async import({ target, password, bundle, node }: VotingKeyBundleImportParams): Promise<NodeAccount> {
+        const { manifest, votingFile } = await this.loadBundle(bundle);
+        const presetData = this.configLoader.loadExistingPresetData(target, password);
+        const addresses = this.configLoader.loadExistingAddresses(target, password);
+        const nodes = addresses.nodes || [];
+        const nodeAccount = node ? nodes.find((n) => n.name === node) : nodes.length === 1 ? nodes[0] : undefined;
+        if (!nodeAccount) {
+            const reason = node ? `Node ${node} could not be found` : 'The node must be provided (--node)';
+            throw new KnownError(`${reason}. Possible values are: ${nodes.map((n) => n.name).join(', ')}`);
+        }
+        if (!presetData.nodes?.find((n) => n.name === nodeAccount.name)?.voting) {
+            logger.warn(`Node ${nodeAccount.name} is not a voting node in the target's preset.`);
+        }
+        const votingKeysFolder = join(BootstrapUtils.getTargetNodesFolder(target, false, nodeAccount.name), presetData.votingKeysDirectory);
+        await BootstrapUtils.mkdir(votingKeysFolder);
+        const votingUtils = new VotingUtils();
+        const currentVotingFiles = votingUtils.loadVotingFiles(votingKeysFolder);
+        const existing = currentVotingFiles.find((f) => f.publicKey.toUpperCase() === manifest.publicKey.toUpperCase());
+        if (existing) {
+            throw new KnownError(`Voting key ${manifest.publicKey} has already been imported as ${existing.filename}.`);
+        }
+        const overlapping = currentVotingFiles.find((f) => LinkTransactionGenericFactory.overlapsVotingAccounts(f, manifest));
+        if (overlapping) {
+            throw new KnownError(
+                `Voting key epochs ${manifest.startEpoch}-${manifest.endEpoch} overlap ${overlapping.filename} epochs ${overlapping.startEpoch}-${overlapping.endEpoch}.`,
+            );
+        }
+        const lifetime = manifest.endEpoch - manifest.startEpoch + 1;
+        if (lifetime < presetData.minVotingKeyLifetime || lifetime > presetData.maxVotingKeyLifetime) {
+            throw new KnownError(
+                `Voting key lifetime of ${lifetime} epochs is not between the network's ${presetData.minVotingKeyLifetime} and ${presetData.maxVotingKeyLifetime} epochs.`,
+            );
+        }
+        if (manifest.endEpoch < presetData.lastKnownNetworkEpoch) {
+            logger.warn(
+                `Voting key end epoch ${manifest.endEpoch} is before the last known network epoch ${presetData.lastKnownNetworkEpoch}.`,
+            );
+        }
+        const filename = `private_key_tree${currentVotingFiles.length + 1}.dat`;
+        writeFileSync(join(votingKeysFolder, filename), votingFile);
+        nodeAccount.voting = votingUtils.loadVotingFiles(votingKeysFolder);
+
+        const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
+        await BootstrapUtils.writeYaml(
+            this.configLoader.getGeneratedAddressLocation(target),
+            CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, privateKeySecurityMode),
+            password || undefined,
+        );
+        logger.info(
+            `Voting key ${manifest.publicKey} with start epoch ${manifest.startEpoch} and end epoch ${manifest.endEpoch} has been imported as ${filename} into node ${nodeAccount.name}.`,
+        );
+        logger.info(`Run 'symbol-bootstrap link' to link it to the node's main account.`);
+        return nodeAccount;
+    }
+
+    /**
+     * It loads a bundle validating the manifest, the file's checksum and every entry of the voting key file.
+     *
+     * @param bundle the bundle folder.
+     */
+    public async loadBundle(bundle: string): Promise<{ manifest: VotingKeyBundleManifest; votingFile: Uint8Array }> {
+        const manifestLocation = join(bundle, VotingKeyBundleService.manifestFileName);
+        if (!existsSync(manifestLocation)) {
+            throw new KnownError(`Bundle manifest ${manifestLocation} doesn't exist!`);
+        }
+        const manifest: VotingKeyBundleManifest = BootstrapUtils.loadYaml(manifestLocation, false);
+        if (
+            manifest?.version !== VotingKeyBundleService.manifestVersion ||
+            !Convert.isHexString(manifest.publicKey || '', 64) ||
+            !Number.isInteger(manifest.startEpoch) ||
+            !Number.isInteger(manifest.endEpoch) ||
+            typeof manifest.filename !== 'string' ||
+            basename(manifest.filename) !== manifest.filename ||
+            typeof manifest.sha256 !== 'string'
+        ) {
+            throw new KnownError(`Bundle manifest ${manifestLocation} is not valid.`);
+        }
+        const fileLocation = join(bundle, manifest.filename);
+        if (!existsSync(fileLocation)) {
+            throw new KnownError(`Bundle voting key file ${fileLocation} doesn't exist!`);
+        }
+        const votingFile = new Uint8Array(readFileSync(fileLocation));
+        if (VotingKeyBundleService.sha256(votingFile).toUpperCase() !== manifest.sha256.toUpperCase()) {
+            throw new KnownError(`Bundle voting key file ${fileLocation} doesn't match the manifest's checksum.`);
+        }
+        logger.info(`Verifying bundle voting key file ${fileLocation}...`);
+        const { account, errors } = await new VotingUtils().verifyVotingFile(votingFile);
+        if (errors.length) {
+            throw new KnownError(`Bundle voting key file ${fileLocation} is not valid. ${errors.join(' ')}`);
+        }
+        if (!account || !LinkTransactionGenericFactory.isSameVotingAccount(manifest, account)) {
+            throw new KnownError(`Bundle voting key file ${fileLocation} doesn't match the manifest's public key and epochs.`);
+        }
+        return { manifest, votingFile };
+    }
+
+    private static sha256(file: Uint8Array): string {
+        return createHash('sha256').update(file).digest('hex').toUpperCase();
+    }
+}
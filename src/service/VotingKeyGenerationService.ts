@@ -0,0 +1,151 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { cpus } from 'os';
+import { extname, join } from 'path';
+import { Convert } from 'symbol-sdk';
+import { Worker } from 'worker_threads';
+import { CryptoImplementation, VotingUtils } from './VotingUtils';
+
+/**
+ * The data a voting key worker needs to create its range of bound keys.
+ */
+export interface VotingKeyWorkerData {
+    implementation: string;
+    rootPrivateKey: Uint8Array;
+    rootPublicKey: Uint8Array;
+    votingKeyEndEpoch: number;
+    fromItem: number;
+    toItem: number;
+    // How many keys are created between progress messages.
+    progressItems: number;
+    unitTestPrivateKeys?: Uint8Array[];
+}
+
+/**
+ * The messages a voting key worker sends. The last one has the result or the error.
+ */
+export interface VotingKeyWorkerMessage {
+    done: number;
+    result?: Uint8Array;
+    error?: string;
+}
+
+export interface VotingKeyGenerationProgress {
+    done: number;
+    total: number;
+    // Estimated remaining seconds.
+    eta: number;
+}
+
+export interface VotingKeyGenerationParams {
+    // Defaults to the number of cpus.
+    workers?: number;
+    implementation?: CryptoImplementation;
+    onProgress?: (progress: VotingKeyGenerationProgress) => void;
+}
+
+/**
+ * The native voting key file generator. The epoch range is split across worker threads and the bound keys are assembled in order, the
+ * file is the same one VotingUtils.createVotingFile creates.
+ */
+export class VotingKeyGenerationService {
+    constructor(private readonly params: VotingKeyGenerationParams = {}) {}
+
+    public async createVotingFile(
+        secret: string,
+        votingKeyStartEpoch: number,
+        votingKeyEndEpoch: number,
+        unitTestPrivateKeys: Uint8Array[] | undefined = undefined,
+    ): Promise<Uint8Array> {
+        const implementation = this.params.implementation || VotingUtils.nobleImplementation;
+        const votingUtils = new VotingUtils(implementation);
+        const items = votingKeyEndEpoch - votingKeyStartEpoch + 1;
+        const workers = Math.max(1, Math.min(this.params.workers || cpus().length, items));
+        const rootPrivateKey = await implementation.createKeyPairFromPrivateKey(Convert.hexToUint8(secret));
+        const header = votingUtils.createVotingFileHeader(rootPrivateKey.publicKey, votingKeyStartEpoch, votingKeyEndEpoch);
+        const itemSize = 32 + 64;
+        const result = new Uint8Array(header.length + items * itemSize);
+        result.set(header);
+
+        const startTime = Date.now();
+        let done = 0;
+        const onDone = (count: number) => {
+            done += count;
+            if (this.params.onProgress && count) {
+                const elapsed = (Date.now() - startTime) / 1000;
+                this.params.onProgress({ done, total: items, eta: Math.round((elapsed / done) * (items - done)) });
+            }
+        };
+        const itemsPerWorker = Math.ceil(items / workers);
+        const runningWorkers: Worker[] = [];
+        try {
+            await Promise.all(
+                [...Array(workers).keys()].map(async (workerIndex) => {
+                    const fromItem = workerIndex * itemsPerWorker;
+                    const toItem = Math.min(fromItem + itemsPerWorker, items);
+                    const keys = await this.runWorker(
+                        {
+                            implementation: implementation.name,
+                            rootPrivateKey: rootPrivateKey.privateKey,
+                            rootPublicKey: rootPrivateKey.publicKey,
+                            votingKeyEndEpoch,
+                            fromItem,
+                            toItem,
+                            progressItems: 100,
+                            unitTestPrivateKeys,
+                        },
+                        runningWorkers,
+                        onDone,
+                    );
+                    result.set(keys, header.length + fromItem * itemSize);
+                }),
+            );
+        } finally {
+            // One failed worker stops the others.
+            await Promise.all(runningWorkers.map((w) => w.terminate()));
+        }
+        return result;
+    }
+
+    private runWorker(workerData: VotingKeyWorkerData, runningWorkers: Worker[], onDone: (count: number) => void): Promise<Uint8Array> {
+        return new Promise<Uint8Array>((resolve, reject) => {
+            const worker = VotingKeyGenerationService.createWorker(workerData);
+            runningWorkers.push(worker);
+            worker.on('message', (message: VotingKeyWorkerMessage) => {
+                onDone(message.done);
+                if (message.error) {
+                    reject(new Error(`Voting key worker failed: ${message.error}`));
+                } else if (message.result) {
+                    resolve(message.result);
+                }
+            });
+            worker.on('error', reject);
+            worker.on('exit', (code) => reject(new Error(`Voting key worker stopped with exit code ${code}`)));
+        });
+    }
+
+    private static createWorker(workerData: VotingKeyWorkerData): Worker {
+        const workerFile = join(__dirname, `VotingKeyWorker${extname(__filename)}`);
+        if (extname(__filename) === '.ts') {
+            // Running from the typescript sources, for example in the unit tests.
+            return new Worker(`require('ts-node/register/transpile-only'); require(${JSON.stringify(workerFile)});`, {
+                eval: true,
+                workerData,
+            });
+        }
+        return new Worker(workerFile, { workerData });
+    }
+}
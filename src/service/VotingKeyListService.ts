@@ -0,0 +1,147 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { join } from 'path';
+import { Address, RepositoryFactory } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { ConfigPreset, NodeAccount } from '../model';
+import { BootstrapUtils } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { LinkTransactionGenericFactory } from './LinkService';
+import { RemoteNodeService } from './RemoteNodeService';
+import { VotingKeyAccount, VotingKeyFile, VotingUtils } from './VotingUtils';
+
+export interface VotingKeyListParams {
+    target: string;
+    url: string;
+    useKnownRestGateways: boolean;
+    offline?: boolean;
+}
+
+/**
+ * A voting key file of a node with its estimated calendar dates.
+ */
+export interface VotingKeyListEntry extends VotingKeyFile {
+    node: string;
+    status: 'expired' | 'active' | 'future';
+    // undefined when offline or the network cannot be reached.
+    linked?: boolean;
+    estimatedStart: Date;
+    estimatedExpiry: Date;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It lists the voting key files of each node with their link status and estimated calendar dates.
+ */
+export class VotingKeyListService {
+    private readonly configLoader = new ConfigLoader();
+
+    constructor(private readonly params: VotingKeyListParams) {}
+
+    public async run(): Promise<VotingKeyListEntry[]> {
+        const presetData = this.configLoader.loadExistingPresetData(this.params.target, false);
+        const addresses = this.configLoader.loadExistingAddresses(this.params.target, false);
+        const currentEpoch = this.params.offline
+            ? presetData.lastKnownNetworkEpoch
+            : await new RemoteNodeService().resolveCurrentFinalizationEpoch(presetData);
+        const epochSeconds = presetData.votingSetGrouping * BootstrapUtils.toSeconds(presetData.blockGenerationTargetTime);
+        logger.info(
+            `Current finalization epoch is ${currentEpoch}${
+                this.params.offline ? ' (last known network epoch)' : ''
+            }. Each epoch takes around ${epochSeconds / 60} minutes.`,
+        );
+        const repositoryFactory = this.params.offline ? undefined : await this.getRepositoryFactory(presetData);
+        const now = Date.now();
+        const entries: VotingKeyListEntry[] = [];
+        for (const nodeAccount of addresses.nodes || []) {
+            const votingKeysFolder = join(
+                BootstrapUtils.getTargetNodesFolder(this.params.target, false, nodeAccount.name),
+                presetData.votingKeysDirectory,
+            );
+            const files = new VotingUtils().loadVotingFiles(votingKeysFolder);
+            if (!files.length) {
+                continue;
+            }
+            const linkedKeys = repositoryFactory && (await this.getLinkedVotingKeys(repositoryFactory, nodeAccount));
+            files.forEach((file) => {
+                entries.push({
+                    ...file,
+                    node: nodeAccount.name,
+                    status: file.endEpoch < currentEpoch ? 'expired' : file.startEpoch > currentEpoch ? 'future' : 'active',
+                    linked: linkedKeys && linkedKeys.some((linked) => LinkTransactionGenericFactory.isSameVotingAccount(file, linked)),
+                    estimatedStart: VotingKeyListService.estimateEpochStart(file.startEpoch, currentEpoch, epochSeconds, now),
+                    estimatedExpiry: VotingKeyListService.estimateEpochStart(file.endEpoch + 1, currentEpoch, epochSeconds, now),
+                });
+            });
+        }
+        VotingKeyListService.logEntries(entries);
+        return entries;
+    }
+
+    /**
+     * It estimates when an epoch starts assuming the blocks are produced at the target time. The current epoch is assumed to start now.
+     *
+     * @param epoch the epoch.
+     * @param currentEpoch the current finalization epoch.
+     * @param epochSeconds the seconds an epoch takes.
+     * @param now the current time in milliseconds.
+     */
+    public static estimateEpochStart(epoch: number, currentEpoch: number, epochSeconds: number, now: number): Date {
+        return new Date(now + (epoch - currentEpoch) * epochSeconds * 1000);
+    }
+
+    private async getRepositoryFactory(presetData: ConfigPreset): Promise<RepositoryFactory | undefined> {
+        const url = this.params.url.replace(/\/$/, '');
+        const urls = (this.params.useKnownRestGateways && presetData.knownRestGateways) || [url];
+        try {
+            return (await new RemoteNodeService().getBestRepositoryInfo(urls)).repositoryFactory;
+        } catch (e) {
+            logger.warn(`The linked voting keys cannot be resolved. ${e.message}`);
+            return undefined;
+        }
+    }
+
+    private async getLinkedVotingKeys(repositoryFactory: RepositoryFactory, nodeAccount: NodeAccount): Promise<VotingKeyAccount[]> {
+        try {
+            const accountInfo = await repositoryFactory
+                .createAccountRepository()
+                .getAccountInfo(Address.createFromRawAddress(nodeAccount.main.address))
+                .toPromise();
+            return accountInfo.supplementalPublicKeys.voting || [];
+        } catch (e) {
+            // The main account is not known by the network yet.
+            return [];
+        }
+    }
+
+    private static logEntries(entries: VotingKeyListEntry[]): void {
+        if (!entries.length) {
+            logger.info('There are no voting key files.');
+            return;
+        }
+        entries.forEach((e) => {
+            const linked = e.linked === undefined ? 'unknown' : e.linked ? 'yes' : 'no';
+            const start = e.status === 'future' ? `starts around ${e.estimatedStart.toISOString()}, ` : '';
+            const expiry = `${e.status === 'expired' ? 'expired' : 'expires'} around ${e.estimatedExpiry.toISOString()}`;
+            logger.info(
+                `Node ${e.node} ${e.filename}: public key ${e.publicKey}, epochs ${e.startEpoch}-${e.endEpoch}, ${e.status}, linked ${linked}, ${start}${expiry}.`,
+            );
+        });
+    }
+}
@@ -0,0 +1,227 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { promises as fsPromises } from 'fs';
+import { join } from 'path';
+import { VotingKeyLinkTransaction } from 'symbol-sdk';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { Addresses, ConfigPreset, NodeAccount } from '../model';
+import { AnnounceService } from './AnnounceService';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { CryptoUtils } from './CryptoUtils';
+import { LinkService, LinkServiceTransactionFactoryParams, LinkTransactionGenericFactory } from './LinkService';
+import { RemoteNodeService } from './RemoteNodeService';
+import { VotingKeyAccount, VotingKeyFile, VotingUtils } from './VotingUtils';
+
+export interface VotingKeyPruneParams {
+    target: string;
+    password?: string;
+    node?: string;
+    url: string;
+    maxFee?: number;
+    feeStrategy?: string;
+    maxFeeCap?: number;
+    useKnownRestGateways: boolean;
+    ready?: boolean;
+    customPreset?: string | string[];
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It unlinks the expired voting keys and archives their files.
+ *
+ * The files are only archived once the unlink transactions are confirmed or when the expired keys are not linked. The remaining files
+ * are renamed to keep the private_key_tree indexes consecutive so new voting key files don't override them. The server reads the
+ * voting key files by index, the nodes must be stopped while pruning and started again afterwards.
+ */
+export class VotingKeyPruneService {
+    private readonly configLoader = new ConfigLoader();
+
+    constructor(private readonly params: VotingKeyPruneParams) {}
+
+    public async run(): Promise<Record<string, VotingKeyFile[]>> {
+        const { target, password } = this.params;
+        const presetData = this.configLoader.mergePresets(
+            this.configLoader.loadExistingPresetData(target, password),
+            this.configLoader.loadCustomPreset(this.params.customPreset, password),
+        );
+        const addresses = this.configLoader.loadExistingAddresses(target, password);
+        const nodes = (addresses.nodes || []).filter((n) => !this.params.node || n.name === this.params.node);
+        if (this.params.node && !nodes.length) {
+            throw new KnownError(
+                `Node ${this.params.node} could not be found. Possible values are: ${(addresses.nodes || [])
+                    .map((n) => n.name)
+                    .join(', ')}`,
+            );
+        }
+        const currentEpoch = await new RemoteNodeService().resolveCurrentFinalizationEpoch(presetData);
+        const expiredFiles: Record<string, VotingKeyFile[]> = {};
+        nodes.forEach((nodeAccount) => {
+            const files = new VotingUtils().loadVotingFiles(this.getVotingKeysFolder(presetData, nodeAccount.name));
+            const expired = VotingKeyPruneService.getExpiredFiles(files, currentEpoch);
+            if (expired.length) {
+                logger.info(
+                    `Node ${nodeAccount.name} has ${expired.length} expired voting key files: ${expired.map((f) => f.filename).join(', ')}`,
+                );
+                expiredFiles[nodeAccount.name] = expired;
+            }
+        });
+        if (!Object.keys(expiredFiles).length) {
+            logger.info(`There are no expired voting key files. Current finalization epoch is ${currentEpoch}.`);
+            return {};
+        }
+        const runningNodes = VotingKeyPruneService.getRunningNodes(Object.keys(expiredFiles), await this.getRunningContainers());
+        if (runningNodes.length) {
+            throw new KnownError(
+                `Node ${runningNodes.join(
+                    ', ',
+                )} is running. Stop it with 'symbol-bootstrap stop' before pruning its voting keys and start it again with 'symbol-bootstrap start' once they are pruned.`,
+            );
+        }
+
+        // The files that can be archived once the node's transactions are confirmed.
+        const archivableFiles: Record<string, { files: VotingKeyFile[]; transactions: number }> = {};
+        const confirmedNodes = await new AnnounceService().announce(this.params, presetData, addresses, {
+            createTransactions: async (params) => {
+                const expired = expiredFiles[params.nodeAccount.name] || [];
+                const linked = params.mainAccountInfo.supplementalPublicKeys.voting || [];
+                const transactions = await this.createTransactions(expired, params);
+                const isSameKey = (file: VotingKeyFile, keys: VotingKeyAccount[]) =>
+                    keys.some((k) => LinkTransactionGenericFactory.isSameVotingAccount(file, k));
+                const unlinked = transactions.map((t) => ({
+                    publicKey: t.linkedPublicKey,
+                    startEpoch: t.startEpoch,
+                    endEpoch: t.endEpoch,
+                }));
+                // Files unlinked by the transactions or not linked at all. Keys the user decided to keep linked are not archived.
+                const files = expired.filter((file) => isSameKey(file, unlinked) || !isSameKey(file, linked));
+                archivableFiles[params.nodeAccount.name] = { files, transactions: transactions.length };
+                return transactions;
+            },
+        });
+        const prunedFiles: Record<string, VotingKeyFile[]> = {};
+        for (const nodeAccount of nodes) {
+            const archivable = archivableFiles[nodeAccount.name];
+            if (!archivable || !archivable.files.length) {
+                continue;
+            }
+            if (archivable.transactions && !confirmedNodes.includes(nodeAccount.name)) {
+                logger.warn(`The expired voting keys of node ${nodeAccount.name} have not been unlinked. Their files are kept.`);
+                continue;
+            }
+            await this.archiveFiles(presetData, nodeAccount, archivable.files);
+            prunedFiles[nodeAccount.name] = archivable.files;
+        }
+        if (Object.keys(prunedFiles).length) {
+            await this.writeAddresses(presetData, addresses);
+        }
+        return prunedFiles;
+    }
+
+    /**
+     * It resolves the voting key files ending before the current finalization epoch.
+     *
+     * @param files the node's voting key files.
+     * @param currentEpoch the current finalization epoch.
+     */
+    public static getExpiredFiles(files: VotingKeyFile[], currentEpoch: number): VotingKeyFile[] {
+        return files.filter((f) => f.endEpoch < currentEpoch);
+    }
+
+    /**
+     * It resolves the nodes whose docker container is running.
+     *
+     * @param nodeNames the names of the nodes, they are their container names.
+     * @param runningContainers the names of the running containers.
+     */
+    public static getRunningNodes(nodeNames: string[], runningContainers: string[]): string[] {
+        return nodeNames.filter((name) => runningContainers.includes(name));
+    }
+
+    /**
+     * It creates the unlink transactions of the expired voting keys that are still linked.
+     *
+     * @param expiredFiles the node's expired voting key files.
+     * @param params the announce params of the current node.
+     */
+    public async createTransactions(
+        expiredFiles: VotingKeyFile[],
+        { presetData, nodeAccount, mainAccountInfo, deadline, maxFee }: LinkServiceTransactionFactoryParams,
+    ): Promise<VotingKeyLinkTransaction[]> {
+        const { votingKeyTransactionFactory } = LinkService.createTransactionFactories(presetData.networkType, deadline, maxFee);
+        return new LinkTransactionGenericFactory({ unlink: true, ready: this.params.ready }).addVotingKeyUnlinkTransactions(
+            mainAccountInfo.supplementalPublicKeys.voting || [],
+            expiredFiles,
+            nodeAccount.name,
+            votingKeyTransactionFactory,
+            (account: VotingKeyAccount) =>
+                `public key ${account.publicKey}, start epoch ${account.startEpoch}, end epoch ${account.endEpoch}`,
+        );
+    }
+
+    private async getRunningContainers(): Promise<string[]> {
+        try {
+            return (await BootstrapUtils.exec('docker ps --format {{.Names}}')).stdout.split('\n').filter((name) => name);
+        } catch (e) {
+            logger.warn(`The running containers cannot be resolved, make sure the nodes are stopped. ${e.message}`);
+            return [];
+        }
+    }
+
+    private getVotingKeysFolder(presetData: ConfigPreset, nodeName: string): string {
+        return join(BootstrapUtils.getTargetNodesFolder(this.params.target, false, nodeName), presetData.votingKeysDirectory);
+    }
+
+    private async archiveFiles(presetData: ConfigPreset, nodeAccount: NodeAccount, expired: VotingKeyFile[]): Promise<void> {
+        const votingKeysFolder = this.getVotingKeysFolder(presetData, nodeAccount.name);
+        const archiveFolder = BootstrapUtils.getTargetNodesFolder(
+            this.params.target,
+            false,
+            nodeAccount.name,
+            'votingkeys-archive',
+            new Date().toISOString().replace(/[:.]/g, '-'),
+        );
+        await BootstrapUtils.mkdir(archiveFolder);
+        for (const file of expired) {
+            await fsPromises.rename(join(votingKeysFolder, file.filename), join(archiveFolder, file.filename));
+        }
+        // Files are renamed in two steps, a remaining file may already have the new name of another one.
+        const renamed = new VotingUtils()
+            .loadVotingFiles(votingKeysFolder)
+            .map((file, index) => ({ from: file.filename, to: `private_key_tree${index + 1}.dat` }))
+            .filter(({ from, to }) => from !== to);
+        for (const { from } of renamed) {
+            await fsPromises.rename(join(votingKeysFolder, from), join(votingKeysFolder, `${from}.tmp`));
+        }
+        for (const { from, to } of renamed) {
+            await fsPromises.rename(join(votingKeysFolder, `${from}.tmp`), join(votingKeysFolder, to));
+        }
+        nodeAccount.voting = new VotingUtils().loadVotingFiles(votingKeysFolder);
+        logger.info(`${expired.length} expired voting key files of node ${nodeAccount.name} have been archived to ${archiveFolder}.`);
+    }
+
+    private async writeAddresses(presetData: ConfigPreset, addresses: Addresses): Promise<void> {
+        const privateKeySecurityMode = CryptoUtils.getPrivateKeySecurityMode(presetData.privateKeySecurityMode);
+        await BootstrapUtils.writeYaml(
+            this.configLoader.getGeneratedAddressLocation(this.params.target),
+            CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, privateKeySecurityMode),
+            this.params.password,
+        );
+    }
+}
@@ -0,0 +1,137 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { existsSync, lstatSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { NodeAccount } from '../model';
+import { BootstrapUtils } from './BootstrapUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { LinkTransactionGenericFactory } from './LinkService';
+import { RemoteNodeService } from './RemoteNodeService';
+import { VotingFileVerification, VotingUtils } from './VotingUtils';
+
+export interface VotingKeyVerifyParams {
+    target: string;
+    offline?: boolean;
+}
+
+/**
+ * The verification of a node's voting key file. The file is valid when there are no errors.
+ */
+export interface VotingKeyVerifyEntry extends VotingFileVerification {
+    node: string;
+    filename: string;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+/**
+ * It verifies every entry of the nodes' voting key files and compares their root keys with the ones in the target's addresses.yml.
+ */
+export class VotingKeyVerifyService {
+    private readonly configLoader = new ConfigLoader();
+
+    constructor(private readonly params: VotingKeyVerifyParams) {}
+
+    public async run(): Promise<VotingKeyVerifyEntry[]> {
+        const presetData = this.configLoader.loadExistingPresetData(this.params.target, false);
+        const addresses = this.configLoader.loadExistingAddresses(this.params.target, false);
+        const currentEpoch = this.params.offline
+            ? presetData.lastKnownNetworkEpoch
+            : await new RemoteNodeService().resolveCurrentFinalizationEpoch(presetData);
+        logger.info(`Current finalization epoch is ${currentEpoch}${this.params.offline ? ' (last known network epoch)' : ''}.`);
+        const entries: VotingKeyVerifyEntry[] = [];
+        for (const nodeAccount of addresses.nodes || []) {
+            const votingKeysFolder = join(
+                BootstrapUtils.getTargetNodesFolder(this.params.target, false, nodeAccount.name),
+                presetData.votingKeysDirectory,
+            );
+            const filenames = existsSync(votingKeysFolder)
+                ? readdirSync(votingKeysFolder).filter(
+                      (filename) =>
+                          filename.startsWith('private_key_tree') &&
+                          filename.endsWith('.dat') &&
+                          lstatSync(join(votingKeysFolder, filename)).isFile(),
+                  )
+                : [];
+            for (const filename of filenames) {
+                logger.info(`Verifying node ${nodeAccount.name} voting key file ${filename}...`);
+                const verification = await new VotingUtils().verifyVotingFile(readFileSync(join(votingKeysFolder, filename)), currentEpoch);
+                entries.push({
+                    node: nodeAccount.name,
+                    filename,
+                    ...verification,
+                    errors: [...verification.errors, ...VotingKeyVerifyService.compareWithAddresses(nodeAccount, filename, verification)],
+                });
+            }
+            (nodeAccount.voting || [])
+                .filter((account) => !filenames.includes(account.filename))
+                .forEach((account) =>
+                    logger.warn(`Node ${nodeAccount.name} voting key file ${account.filename} in addresses.yml could not be found.`),
+                );
+        }
+        VotingKeyVerifyService.logEntries(entries);
+        return entries;
+    }
+
+    /**
+     * It compares the root key and epochs of a voting key file with the ones recorded in addresses.yml.
+     *
+     * @param nodeAccount the node account in addresses.yml.
+     * @param filename the voting key file name.
+     * @param verification the file's verification.
+     */
+    public static compareWithAddresses(nodeAccount: NodeAccount, filename: string, verification: VotingFileVerification): string[] {
+        const { account } = verification;
+        if (!account) {
+            return [];
+        }
+        const recorded = (nodeAccount.voting || []).find((a) => a.filename === filename);
+        if (!recorded) {
+            return [`The file is not recorded in addresses.yml.`];
+        }
+        if (!LinkTransactionGenericFactory.isSameVotingAccount(recorded, account)) {
+            return [
+                `Root public key ${account.publicKey}, epochs ${account.startEpoch}-${account.endEpoch} don't match addresses.yml public key ${recorded.publicKey}, epochs ${recorded.startEpoch}-${recorded.endEpoch}.`,
+            ];
+        }
+        return [];
+    }
+
+    private static logEntries(entries: VotingKeyVerifyEntry[]): void {
+        if (!entries.length) {
+            logger.info('There are no voting key files.');
+            return;
+        }
+        entries.forEach((e) => {
+            const account = e.account ? `public key ${e.account.publicKey}, epochs ${e.account.startEpoch}-${e.account.endEpoch}` : '';
+            const wiped = e.wipedKeys ? `, ${e.wipedKeys} used keys wiped` : '';
+            if (e.errors.length) {
+                logger.error(`Node ${e.node} ${e.filename}: ${account} is INVALID. ${e.errors.join(' ')}`);
+            } else {
+                logger.info(`Node ${e.node} ${e.filename}: ${account}${wiped} is valid.`);
+            }
+        });
+        const invalid = entries.filter((e) => e.errors.length).length;
+        logger.info(
+            invalid
+                ? `${invalid} out of ${entries.length} voting key files are invalid.`
+                : `All the ${entries.length} voting key files are valid.`,
+        );
+    }
+}
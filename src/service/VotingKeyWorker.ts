@@ -0,0 +1,56 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { VotingKeyWorkerData, VotingKeyWorkerMessage } from './VotingKeyGenerationService';
+import { VotingUtils } from './VotingUtils';
+
+/**
+ * The worker thread creating a range of the voting key file's bound keys. See VotingKeyGenerationService.
+ */
+const run = async ({
+    implementation,
+    rootPrivateKey,
+    rootPublicKey,
+    votingKeyEndEpoch,
+    fromItem,
+    toItem,
+    progressItems,
+    unitTestPrivateKeys,
+}: VotingKeyWorkerData): Promise<void> => {
+    const cryptoImplementation = VotingUtils.implementations.find((i) => i.name === implementation);
+    if (!cryptoImplementation) {
+        throw new Error(`Unknown crypto implementation ${implementation}`);
+    }
+    const votingUtils = new VotingUtils(cryptoImplementation);
+    const keyPair = { privateKey: rootPrivateKey, publicKey: rootPublicKey };
+    const result = new Uint8Array((toItem - fromItem) * (32 + 64));
+    for (let from = fromItem; from < toItem; from += progressItems) {
+        const to = Math.min(from + progressItems, toItem);
+        const items = await votingUtils.createVotingFileItems(keyPair, votingKeyEndEpoch, from, to, unitTestPrivateKeys);
+        result.set(items, (from - fromItem) * (32 + 64));
+        const progress: VotingKeyWorkerMessage = { done: to - from };
+        parentPort?.postMessage(progress);
+    }
+    const message: VotingKeyWorkerMessage = { done: 0, result };
+    parentPort?.postMessage(message, [result.buffer]);
+};
+
+if (!isMainThread && parentPort) {
+    run(workerData).catch((e) => {
+        const message: VotingKeyWorkerMessage = { done: 0, error: e.message };
+        parentPort?.postMessage(message);
+    });
+}
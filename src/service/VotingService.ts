@@ -22,6 +22,7 @@ import Logger from '../logger/Logger';
 import LoggerFactory from '../logger/LoggerFactory';
 import { ConfigPreset, NodeAccount, NodePreset } from '../model';
 import { BootstrapUtils } from './BootstrapUtils';
+import { VotingKeyGenerationProgress, VotingKeyGenerationService } from './VotingKeyGenerationService';
 import { VotingUtils } from './VotingUtils';
 
 type VotingParams = { target: string; user: string };
@@ -82,7 +83,9 @@ export class VotingService {
         const privateKeyTreeFileName = `private_key_tree${currentVotingFiles.length + 1}.dat`;
         if (presetData.useExperimentalNativeVotingKeyGeneration) {
             logger.info('Voting file is created using the native typescript voting key file generator!');
-            const votingFile = await votingUtils.createVotingFile(votingPrivateKey, votingKeyStartEpoch, votingKeyEndEpoch);
+            const votingFile = await new VotingKeyGenerationService({
+                onProgress: VotingService.createProgressLogger(`Node ${nodeAccount.name} voting key file`),
+            }).createVotingFile(votingPrivateKey, votingKeyStartEpoch, votingKeyEndEpoch);
             writeFileSync(join(votingKeysFolder, privateKeyTreeFileName), votingFile);
         } else {
             logger.info(`Voting file is created using docker and the default's catapult.tools.votingkey`);
@@ -130,4 +133,24 @@ export class VotingService {
         nodeAccount.voting = votingUtils.loadVotingFiles(votingKeysFolder);
         return true;
     }
+
+    /**
+     * It creates a progress callback logging the epochs done and the ETA at most every 10 seconds.
+     *
+     * @param label the logged file label.
+     */
+    public static createProgressLogger(label: string): (progress: VotingKeyGenerationProgress) => void {
+        let lastLog = Date.now();
+        return ({ done, total, eta }) => {
+            if (done < total && Date.now() - lastLog < 10000) {
+                return;
+            }
+            lastLog = Date.now();
+            const minutes = Math.floor(eta / 60);
+            const remaining = minutes ? `${minutes}m ${eta % 60}s` : `${eta}s`;
+            logger.info(
+                `${label}: ${done} of ${total} epochs (${Math.floor((done * 100) / total)}%)${done < total ? `, ETA ${remaining}` : ''}`,
+            );
+        };
+    }
 }
@@ -39,6 +39,16 @@ export interface VotingKeyAccount {
 
 export type VotingKeyFile = VotingKeyAccount & { filename: string };
 
+/**
+ * The result of verifying every entry of a voting key file. The file is valid when there are no errors.
+ */
+export interface VotingFileVerification {
+    account?: VotingKeyAccount;
+    // Keys of past epochs the node has wiped (zeroed) after voting.
+    wipedKeys: number;
+    errors: string[];
+}
+
 export class VotingUtils {
     public static nobleImplementation: CryptoImplementation = {
         name: 'Noble',
@@ -101,11 +111,34 @@ export class VotingUtils {
         unitTestPrivateKeys: Uint8Array[] | undefined = undefined,
     ): Promise<Uint8Array> {
         const items = votingKeyEndEpoch - votingKeyStartEpoch + 1;
-        const headerSize = 64 + 16;
-        const itemSize = 32 + 64;
-        const totalSize = headerSize + items * itemSize;
         const rootPrivateKey = await this.implementation.createKeyPairFromPrivateKey(Convert.hexToUint8(secret));
-        const result = new Uint8Array(totalSize);
+        const header = this.createVotingFileHeader(rootPrivateKey.publicKey, votingKeyStartEpoch, votingKeyEndEpoch);
+        const keys = await this.createVotingFileItems(rootPrivateKey, votingKeyEndEpoch, 0, items, unitTestPrivateKeys);
+        const result = new Uint8Array(header.length + keys.length);
+        result.set(header);
+        result.set(keys, header.length);
+        //
+        // root private key is discarded after file is created.
+        // header:
+        //   2, 42, ff.., ff..., (root pub), 2, 42
+        // keys:
+        //   (priv key 42, sig 42), (priv key 41, sig 31), ..., (priv key 2, sig 2)
+        //
+        // every priv key should be cryptographically random,
+
+        return result;
+    }
+
+    /**
+     * It creates the header of a voting key file.
+     *
+     * @param rootPublicKey the root public key announced via the voting key link transaction.
+     * @param votingKeyStartEpoch the start epoch.
+     * @param votingKeyEndEpoch the end epoch.
+     */
+    public createVotingFileHeader(rootPublicKey: Uint8Array, votingKeyStartEpoch: number, votingKeyEndEpoch: number): Uint8Array {
+        const headerSize = 64 + 16;
+        const result = new Uint8Array(headerSize);
         //start-epoch (8b),
         let index = 0;
         index = this.insert(result, Convert.numberToUint8Array(votingKeyStartEpoch, 8), index);
@@ -121,16 +154,39 @@ export class VotingUtils {
         index = this.insert(result, Convert.hexToUint8('FFFFFFFFFFFFFFFF'), index);
 
         // root public key (32b) - this is root public key that is getting announced via vote link tx
-        index = this.insert(result, rootPrivateKey.publicKey, index);
+        index = this.insert(result, rootPublicKey, index);
         // start-epoch (8b), \ those two are exactly same one, as top level, reason is this was earlier a tree,
         index = this.insert(result, Convert.numberToUint8Array(votingKeyStartEpoch, 8), index);
 
         //end-epoch (8b), / and each level holds this separately, so we left it as is
-        index = this.insert(result, Convert.numberToUint8Array(votingKeyEndEpoch, 8), index);
+        this.insert(result, Convert.numberToUint8Array(votingKeyEndEpoch, 8), index);
+        return result;
+    }
+
+    /**
+     * It creates the bound keys from item fromItem (inclusive) to item toItem (exclusive). Items are in reverse epoch order, item 0 is
+     * the end epoch's key.
+     *
+     * @param rootPrivateKey the root key pair signing the keys.
+     * @param votingKeyEndEpoch the end epoch.
+     * @param fromItem the first item.
+     * @param toItem the item after the last one.
+     * @param unitTestPrivateKeys the private keys of the items, random when not provided.
+     */
+    public async createVotingFileItems(
+        rootPrivateKey: KeyPair,
+        votingKeyEndEpoch: number,
+        fromItem: number,
+        toItem: number,
+        unitTestPrivateKeys: Uint8Array[] | undefined = undefined,
+    ): Promise<Uint8Array> {
+        const itemSize = 32 + 64;
+        const result = new Uint8Array((toItem - fromItem) * itemSize);
+        let index = 0;
         /// what follows are bound keys, there are (end - start + 1) of them.
 
         // each key is:
-        for (let i = 0; i < items; i++) {
+        for (let i = fromItem; i < toItem; i++) {
             // random PRIVATE key (32b)
             const randomPrivateKey = unitTestPrivateKeys ? unitTestPrivateKeys[i] : Crypto.randomBytes(32);
             if (randomPrivateKey.length != 32) {
@@ -149,15 +205,6 @@ export class VotingUtils {
             const signature = await this.implementation.sign(rootPrivateKey, Uint8Array.from([...randomKeyPar.publicKey, ...identifier]));
             index = this.insert(result, signature, index);
         }
-        //
-        // root private key is discarded after file is created.
-        // header:
-        //   2, 42, ff.., ff..., (root pub), 2, 42
-        // keys:
-        //   (priv key 42, sig 42), (priv key 41, sig 31), ..., (priv key 2, sig 2)
-        //
-        // every priv key should be cryptographically random,
-
         return result;
     }
 
@@ -183,6 +230,84 @@ export class VotingUtils {
         };
     }
 
+    /**
+     * It verifies the header, the size and every per-epoch key's signature against the root public key of a voting key file.
+     *
+     * The node wipes (zeroes) the keys of the epochs it has voted on. Wiped keys are only valid as one contiguous run from the start
+     * epoch up to the current finalization epoch, excluding the end epoch key. Any other wiped key is reported as an error, every wiped
+     * key is when the current epoch is unknown.
+     *
+     * @param file the voting key file content.
+     * @param currentEpoch the current finalization epoch, undefined when it's unknown.
+     */
+    public async verifyVotingFile(file: Uint8Array, currentEpoch?: number): Promise<VotingFileVerification> {
+        const headerSize = 64 + 16;
+        const itemSize = 32 + 64;
+        if (file.length < headerSize) {
+            return { wipedKeys: 0, errors: [`Unexpected voting key file. Expected at least ${headerSize} bytes but got ${file.length}`] };
+        }
+        const startEpoch = Convert.uintArray8ToNumber(file.slice(0, 8));
+        const endEpoch = Convert.uintArray8ToNumber(file.slice(8, 16));
+        const rootPublicKey = file.slice(32, 64);
+        const account = { publicKey: Convert.uint8ToHex(rootPublicKey), startEpoch, endEpoch };
+        const errors: string[] = [];
+        if (startEpoch > endEpoch) {
+            errors.push(`Start epoch ${startEpoch} is greater than end epoch ${endEpoch}`);
+            return { account, wipedKeys: 0, errors };
+        }
+        const levelStartEpoch = Convert.uintArray8ToNumber(file.slice(64, 72));
+        const levelEndEpoch = Convert.uintArray8ToNumber(file.slice(72, 80));
+        if (levelStartEpoch !== startEpoch || levelEndEpoch !== endEpoch) {
+            errors.push(`Key level epochs ${levelStartEpoch}-${levelEndEpoch} don't match the header epochs ${startEpoch}-${endEpoch}`);
+        }
+        const items = endEpoch - startEpoch + 1;
+        const totalSize = headerSize + items * itemSize;
+        if (file.length != totalSize) {
+            errors.push(`Unexpected voting key file. Expected ${totalSize} but got ${file.length}`);
+            return { account, wipedKeys: 0, errors };
+        }
+        const wipedEpochs: number[] = [];
+        const invalidEpochs: number[] = [];
+        for (let i = 0; i < items; i++) {
+            const index = headerSize + i * itemSize;
+            const privateKey = file.slice(index, index + 32);
+            // Keys are written in reverse order.
+            const epoch = endEpoch - i;
+            if (privateKey.every((b) => b === 0)) {
+                wipedEpochs.push(epoch);
+                continue;
+            }
+            const signature = file.slice(index + 32, index + itemSize);
+            const { publicKey } = await this.implementation.createKeyPairFromPrivateKey(privateKey);
+            const data = Uint8Array.from([...publicKey, ...Convert.numberToUint8Array(epoch, 8)]);
+            if (!(await noble.verify(signature, data, rootPublicKey))) {
+                invalidEpochs.push(epoch);
+            }
+        }
+        if (invalidEpochs.length) {
+            const sample = invalidEpochs.slice(0, 10).join(', ');
+            errors.push(`${invalidEpochs.length} keys have invalid signatures. Epochs: ${sample}${invalidEpochs.length > 10 ? '...' : ''}`);
+        }
+        // Keys are wiped from the oldest epoch, resolve the last epoch of the contiguous run of wiped past epochs.
+        let lastWipedEpoch = startEpoch - 1;
+        if (currentEpoch !== undefined) {
+            const lastPastEpoch = Math.min(currentEpoch, endEpoch - 1);
+            while (lastWipedEpoch < lastPastEpoch && wipedEpochs.includes(lastWipedEpoch + 1)) {
+                lastWipedEpoch++;
+            }
+        }
+        const unexpectedWipedEpochs = wipedEpochs.filter((epoch) => epoch > lastWipedEpoch).sort((a, b) => a - b);
+        if (unexpectedWipedEpochs.length) {
+            const sample = unexpectedWipedEpochs.slice(0, 10).join(', ');
+            errors.push(
+                `${unexpectedWipedEpochs.length} keys are unexpectedly wiped${
+                    currentEpoch === undefined ? ', the current finalization epoch is unknown' : ''
+                }. Epochs: ${sample}${unexpectedWipedEpochs.length > 10 ? '...' : ''}`,
+            );
+        }
+        return { account, wipedKeys: wipedEpochs.length, errors };
+    }
+
     public loadVotingFiles(folder: string): VotingKeyFile[] {
         if (!existsSync(folder)) {
             return [];
@@ -0,0 +1,306 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { existsSync, readdirSync } from 'fs';
+import { prompt } from 'inquirer';
+import * as _ from 'lodash';
+import { join } from 'path';
+import { LogType } from '../logger';
+import Logger from '../logger/Logger';
+import LoggerFactory from '../logger/LoggerFactory';
+import { PrivateKeySecurityMode } from '../model';
+import { BootstrapService } from './BootstrapService';
+import { BootstrapUtils, KnownError } from './BootstrapUtils';
+import { CommandUtils } from './CommandUtils';
+import { ConfigLoader } from './ConfigLoader';
+import { ConfigResult, ConfigService, Preset } from './ConfigService';
+import { CryptoUtils } from './CryptoUtils';
+
+/**
+ * The wizard answers. In the answers-file mode, the missing answers take the default values.
+ */
+export interface WizardAnswers {
+    preset: Preset | string; // bundled preset or a preset in the presetsFolder.
+    assembly: string;
+    host?: string;
+    friendlyName?: string;
+    voting: boolean;
+    harvesting: boolean;
+    privateKeySecurityMode: PrivateKeySecurityMode;
+    mainPrivateKey?: string; // imported main private key, a random one is generated if not provided.
+    transportPrivateKey?: string; // imported transport private key, a random one is generated if not provided.
+    config: boolean; // if the configuration is generated after writing the custom preset.
+}
+
+export interface WizardParams {
+    target: string;
+    customPreset: string;
+    presetsFolder?: string;
+    password?: string;
+    answers?: string;
+}
+
+interface CommentedEntry {
+    comment: string;
+    key: string;
+    value: unknown;
+}
+
+const logger: Logger = LoggerFactory.getLogger(LogType.System);
+
+export class WizardService {
+    public static readonly defaultAnswers: WizardAnswers = {
+        preset: Preset.testnet,
+        assembly: 'dual',
+        voting: false,
+        harvesting: true,
+        privateKeySecurityMode: PrivateKeySecurityMode.ENCRYPT,
+        config: false,
+    };
+
+    // PROMPT_ALL also requires the remote, VRF and agent keys the wizard doesn't import. Use a custom preset with config instead.
+    public static readonly privateKeySecurityModes = Object.values(PrivateKeySecurityMode).filter(
+        (mode) => mode !== PrivateKeySecurityMode.PROMPT_ALL,
+    );
+
+    private readonly configLoader: ConfigLoader;
+
+    constructor(private readonly root: string, private readonly params: WizardParams) {
+        this.configLoader = new ConfigLoader();
+    }
+
+    public async run(): Promise<ConfigResult | undefined> {
+        const customPresetFile = this.params.customPreset;
+        if (existsSync(customPresetFile)) {
+            throw new KnownError(`Custom preset file ${customPresetFile} already exists!`);
+        }
+        const answers = this.params.answers ? this.loadAnswers(this.params.answers) : await this.promptAnswers();
+        await BootstrapUtils.writeTextFile(customPresetFile, this.toCustomPresetYaml(answers, this.params.password));
+        logger.info(`Custom preset ${customPresetFile} has been created!`);
+        if (!answers.config) {
+            logger.info(
+                `Run 'symbol-bootstrap config -c ${customPresetFile}' or 'symbol-bootstrap start -c ${customPresetFile}' to use it.`,
+            );
+            return undefined;
+        }
+        return new BootstrapService(this.root).config({
+            ...ConfigService.defaultParams,
+            target: this.params.target,
+            password: this.params.password,
+            customPreset: customPresetFile,
+        });
+    }
+
+    /**
+     * It loads and validates the answers of the non-interactive mode.
+     *
+     * @param answersFile the yaml file with the answers.
+     */
+    public loadAnswers(answersFile: string): WizardAnswers {
+        if (!existsSync(answersFile)) {
+            throw new KnownError(`Answers file ${answersFile} doesn't exist!`);
+        }
+        const answers: WizardAnswers = { ...WizardService.defaultAnswers, ...BootstrapUtils.loadYaml(answersFile, false) };
+        const invalid = (name: string, value: unknown, possibleValues: string[]) =>
+            new KnownError(`Invalid ${name} '${value}' in answers file ${answersFile}. Possible values are: ${possibleValues.join(', ')}`);
+        const presets = this.getPresets();
+        if (!presets.includes(answers.preset)) {
+            throw invalid('preset', answers.preset, presets);
+        }
+        const assemblies = this.getAssemblies(answers.preset);
+        if (!assemblies.includes(answers.assembly)) {
+            throw invalid('assembly', answers.assembly, assemblies);
+        }
+        const securityModes = WizardService.privateKeySecurityModes;
+        if (!securityModes.includes(answers.privateKeySecurityMode)) {
+            throw invalid('privateKeySecurityMode', answers.privateKeySecurityMode, securityModes);
+        }
+        [answers.mainPrivateKey, answers.transportPrivateKey].forEach((privateKey) => {
+            const result = privateKey === undefined || CommandUtils.isValidPrivateKey(privateKey);
+            if (result !== true) {
+                throw new KnownError(`${result} Answers file ${answersFile}.`);
+            }
+        });
+        const importedKeys: Record<string, string | undefined> = { main: answers.mainPrivateKey, transport: answers.transportPrivateKey };
+        WizardService.getRequiredKeys(answers.privateKeySecurityMode).forEach((key) => {
+            if (!importedKeys[key]) {
+                throw new KnownError(
+                    `Private key security mode ${answers.privateKeySecurityMode} requires the imported ${key} private key. Answers file ${answersFile}.`,
+                );
+            }
+        });
+        return answers;
+    }
+
+    /**
+     * It creates the commented custom preset yaml. Private keys are encrypted when a password is provided.
+     *
+     * @param answers the wizard answers.
+     * @param password the optional password.
+     */
+    public toCustomPresetYaml(answers: WizardAnswers, password: string | undefined): string {
+        const encrypt = (value: string | undefined) =>
+            value && password ? CryptoUtils.encrypt({ privateKey: value }, BootstrapUtils.validatePassword(password)).privateKey : value;
+        const root: CommentedEntry[] = [
+            {
+                comment: 'The custom preset version, used by preset:migrate.',
+                key: 'version',
+                value: this.configLoader.getCustomPresetVersion(),
+            },
+            { comment: 'The network the node joins.', key: 'preset', value: answers.preset },
+            { comment: 'The external folder with the network presets.', key: 'presetsFolder', value: this.params.presetsFolder },
+            { comment: `The node's assembly, the roles and services of the node.`, key: 'assembly', value: answers.assembly },
+            {
+                comment: 'How the private keys are stored in the target folder. PROMPT_ modes ask for the keys when required.',
+                key: 'privateKeySecurityMode',
+                value: answers.privateKeySecurityMode,
+            },
+        ];
+        const node: CommentedEntry[] = [
+            { comment: 'The public host other nodes and clients use to reach this node.', key: 'host', value: answers.host },
+            { comment: 'The name shown in the explorers and node lists.', key: 'friendlyName', value: answers.friendlyName },
+            {
+                comment: 'If the node votes in the finalization. The main account requires enough balance.',
+                key: 'voting',
+                value: answers.voting,
+            },
+            { comment: 'If the node harvests new blocks.', key: 'harvesting', value: answers.harvesting },
+            { comment: 'The imported main private key.', key: 'mainPrivateKey', value: encrypt(answers.mainPrivateKey) },
+            { comment: 'The imported transport private key.', key: 'transportPrivateKey', value: encrypt(answers.transportPrivateKey) },
+        ];
+        const toYaml = (entries: CommentedEntry[], indent: string) =>
+            entries
+                .filter((entry) => entry.value !== undefined && entry.value !== '')
+                .map(
+                    (entry) =>
+                        `${indent}# ${entry.comment}\n${BootstrapUtils.toYaml({ [entry.key]: entry.value })
+                            .trim()
+                            .split('\n')
+                            .map((line) => indent + line)
+                            .join('\n')}\n`,
+                )
+                .join('');
+        return `# Custom preset created by symbol-bootstrap wizard.\n${toYaml(root, '')}nodes:\n    -\n${toYaml(node, '        ')}`;
+    }
+
+    /**
+     * It resolves the keys that must be imported as the private key security mode doesn't store the generated ones.
+     *
+     * @param privateKeySecurityMode the selected private key security mode.
+     */
+    public static getRequiredKeys(privateKeySecurityMode: PrivateKeySecurityMode): string[] {
+        switch (privateKeySecurityMode) {
+            case PrivateKeySecurityMode.PROMPT_MAIN:
+                return ['main'];
+            case PrivateKeySecurityMode.PROMPT_MAIN_TRANSPORT:
+                return ['main', 'transport'];
+            default:
+                return [];
+        }
+    }
+
+    private getPresets(): string[] {
+        const presetsFolder = this.params.presetsFolder;
+        if (!presetsFolder) {
+            return Object.values(Preset);
+        }
+        if (!existsSync(presetsFolder)) {
+            throw new KnownError(`Presets folder '${presetsFolder}' doesn't exist.`);
+        }
+        const externalPresets = readdirSync(presetsFolder).filter((preset) => existsSync(join(presetsFolder, preset, 'network.yml')));
+        return _.uniq([...Object.values(Preset), ...externalPresets]);
+    }
+
+    private getAssemblies(preset: string): string[] {
+        return readdirSync(ConfigLoader.getPresetFolder(this.root, preset, this.params.presetsFolder))
+            .filter((file) => file.startsWith('assembly-') && file.endsWith('.yml'))
+            .map((file) => file.replace('assembly-', '').replace('.yml', ''));
+    }
+
+    private async promptAnswers(): Promise<WizardAnswers> {
+        const defaults = WizardService.defaultAnswers;
+        const { preset } = await prompt([
+            {
+                name: 'preset',
+                type: 'list',
+                message: 'Select the network:',
+                choices: this.getPresets(),
+                default: defaults.preset,
+            },
+        ]);
+        const assemblies = this.getAssemblies(preset);
+        const answers = await prompt([
+            {
+                name: 'assembly',
+                type: 'list',
+                message: `Select the assembly of the node. A dual node is a peer and api node:`,
+                choices: assemblies,
+                default: assemblies.includes(defaults.assembly) ? defaults.assembly : undefined,
+            },
+            {
+                name: 'host',
+                type: 'input',
+                message: 'Enter the public host of the node, like my-node.mycompany.com. Leave empty for a local node:',
+            },
+            {
+                name: 'friendlyName',
+                type: 'input',
+                message: 'Enter the friendly name of the node:',
+                default: (current: Partial<WizardAnswers>) => current.host || undefined,
+            },
+            { name: 'voting', type: 'confirm', message: 'Is the node a voting node?', default: defaults.voting },
+            { name: 'harvesting', type: 'confirm', message: 'Is the node a harvesting node?', default: defaults.harvesting },
+            {
+                name: 'privateKeySecurityMode',
+                type: 'list',
+                message: 'Select how the private keys are stored:',
+                choices: WizardService.privateKeySecurityModes,
+                default: defaults.privateKeySecurityMode,
+            },
+            { name: 'importKeys', type: 'confirm', message: 'Do you want to import existing private keys?', default: false },
+            ...['main', 'transport'].map((key) => {
+                const isRequired = (current: Record<string, any>) =>
+                    WizardService.getRequiredKeys(current.privateKeySecurityMode).includes(key);
+                return {
+                    name: `${key}PrivateKey`,
+                    type: 'password',
+                    mask: '*',
+                    message: (current: Record<string, any>) =>
+                        isRequired(current)
+                            ? `Enter the 64 HEX ${key} private key. It's required by the ${current.privateKeySecurityMode} mode:`
+                            : `Enter the 64 HEX ${key} private key. Leave empty to generate a random one:`,
+                    when: (current: Record<string, any>) => current.importKeys || isRequired(current),
+                    validate: (input: string, current: Record<string, any>) =>
+                        input
+                            ? CommandUtils.isValidPrivateKey(input)
+                            : !isRequired(current) ||
+                              `The ${key} private key is required when the private key security mode is ${current.privateKeySecurityMode}.`,
+                };
+            }),
+            {
+                name: 'config',
+                type: 'confirm',
+                message: 'Do you want to generate the configuration now?',
+                default: defaults.config,
+            },
+        ]);
+        return {
+            ..._.omit(answers, 'importKeys'),
+            preset,
+            mainPrivateKey: answers.mainPrivateKey?.toUpperCase() || undefined,
+            transportPrivateKey: answers.transportPrivateKey?.toUpperCase() || undefined,
+        } as WizardAnswers;
+    }
+}
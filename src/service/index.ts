@@ -1,6 +1,7 @@
 // created from 'create-ts-index'
 
 export * from './AgentCertificateService';
+export * from './AnnounceJournalService';
 export * from './AnnounceService';
 export * from './BootstrapService';
 export * from './BootstrapUtils';
@@ -9,16 +10,33 @@ export * from './CommandUtils';
 export * from './ComposeService';
 export * from './ConfigLoader';
 export * from './ConfigService';
+export * from './CosignService';
 export * from './CryptoUtils';
 export * from './ForgeCertificateService';
+export * from './KeyImportService';
+export * from './KeyRecoveryService';
+export * from './KeyRotationService';
+export * from './LinkAuditService';
 export * from './LinkService';
+export * from './MnemonicUtils';
 export * from './NemgenService';
+export * from './OfflineTransactionService';
 export * from './PortService';
+export * from './PresetProvenance';
+export * from './PresetValidator';
 export * from './RemoteNodeService';
 export * from './ReportService';
 export * from './RewardProgramService';
 export * from './RunService';
 export * from './SshpkService';
+export * from './StatusService';
 export * from './VerifyService';
+export * from './VotingKeyBundleService';
+export * from './VotingKeyGenerationService';
+export * from './VotingKeyListService';
+export * from './VotingKeyPruneService';
+export * from './VotingKeyVerifyService';
+export * from './VotingKeyWorker';
 export * from './VotingService';
 export * from './VotingUtils';
+export * from './WizardService';
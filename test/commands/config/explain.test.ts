@@ -0,0 +1,25 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect, test } from '@oclif/test';
+
+describe('config:explain', () => {
+    test.stdout()
+        .command('config:explain maxTransactionsPerBlock -p testnet -a dual -c test/custom_preset.yml'.split(' '))
+        .it('runs config:explain', (ctx) => {
+            expect(ctx.stdout).to.contain('maxTransactionsPerBlock: 6000');
+            expect(ctx.stdout).to.contain('1. presets/shared.yml: 6000');
+        });
+});
@@ -0,0 +1,45 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect, test } from '@oclif/test';
+
+describe('config:validate', () => {
+    test.stdout()
+        .command('config:validate -p testnet -a dual -c test/custom_preset.yml'.split(' '))
+        .it('runs config:validate on a valid preset', (ctx) => {
+            expect(ctx.stdout).to.contain('Preset is valid!');
+        });
+
+    test.stdout()
+        .command('config:validate -p bootstrap -c test/validate/invalid-preset.yml'.split(' '))
+        .catch((ctx) => {
+            expect(ctx.message).to.eq(`Preset is not valid:
+  - votingKeyDesiredFutureLifetime: It must not be greater than votingKeyDesiredLifetime (100) but got 200.
+  - finalizationThreshold: It must not be greater than finalizationSize (10000) but got 11000.
+  - nodes[1].name: Name 'peer-node' is already used by nodes[0].name.
+  - nodes[2].name: Name 'peer-node' is already used by nodes[0].name.
+  - gateways[0].name: Name 'db' is already used by databases[0].name.
+  - gateways[0].apiNodeName: Node 'peer-node' is not an api node (api: true).
+  - gateways[1].apiNodeName: There is no node with name 'missing-node'.`);
+        })
+        .it('runs config:validate on an invalid preset');
+
+    test.stdout()
+        .command('config:validate -p bootstrap -c test/validate/not-found.yml'.split(' '))
+        .catch((ctx) => {
+            expect(ctx.message).to.contain(`Custom preset 'test/validate/not-found.yml' doesn't exist.`);
+        })
+        .it('runs config:validate on a missing custom preset');
+});
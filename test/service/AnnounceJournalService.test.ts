@@ -0,0 +1,117 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { of, throwError } from 'rxjs';
+import { TransactionGroupEnum } from 'symbol-openapi-typescript-fetch-client';
+import {
+    Account,
+    Deadline,
+    IListener,
+    NetworkType,
+    PlainMessage,
+    RepositoryFactory,
+    SignedTransaction,
+    TransactionService,
+    TransferTransaction,
+    UInt64,
+} from 'symbol-sdk';
+import { AnnounceJournalService, BootstrapUtils, JournalTransactionStatus } from '../../src/service';
+
+describe('AnnounceJournalService', () => {
+    const target = 'target/tests/AnnounceJournalService';
+    const networkType = NetworkType.TEST_NET;
+    const epochAdjustment = 1616694977;
+    const generationHash = '3B5E1FA6445653C971A50687E75E6D09FB30481055E3990C84B25E9222DC1155';
+    const account = Account.generateNewAccount(networkType);
+
+    const sign = (amount: number): SignedTransaction =>
+        account.sign(
+            TransferTransaction.create(
+                Deadline.create(epochAdjustment),
+                account.address,
+                [],
+                PlainMessage.create(`transaction ${amount}`),
+                networkType,
+                UInt64.fromUint(amount),
+            ),
+            generationHash,
+        );
+
+    beforeEach(() => {
+        BootstrapUtils.deleteFolder(target);
+    });
+
+    it('records and updates transactions', async () => {
+        const journal = new AnnounceJournalService(target);
+        expect(journal.load()).deep.eq([]);
+        const signed = sign(1);
+        const deadline = new Date(Date.now() + 60000);
+        await journal.record('node', 'TransferTransaction', signed, deadline);
+        expect(journal.getJournalLocation()).eq(`${BootstrapUtils.getTargetFolder(target, false, 'transactions')}/announce-journal.yml`);
+        const [recorded] = journal.load();
+        expect(recorded.hash).eq(signed.hash);
+        expect(recorded.payload).eq(signed.payload);
+        expect(recorded.node).eq('node');
+        expect(recorded.deadline).eq(deadline.toISOString());
+        expect(recorded.status).eq(JournalTransactionStatus.Pending);
+
+        await journal.updateStatus(signed.hash, JournalTransactionStatus.Confirmed);
+        await journal.updateStatus(signed.hash, JournalTransactionStatus.Failed);
+        expect(journal.load().map((t) => t.status)).deep.eq([JournalTransactionStatus.Confirmed]);
+        expect(journal.logStatus('otherNode')).deep.eq([]);
+        expect(journal.logStatus('node').length).eq(1);
+    });
+
+    it('resumes the pending transactions', async () => {
+        const journal = new AnnounceJournalService(target);
+        const confirmed = sign(1);
+        const expired = sign(2);
+        const pending = sign(3);
+        const otherNode = sign(4);
+        const future = new Date(Date.now() + 60000);
+        await journal.record('node', 'Confirmed', confirmed, future);
+        await journal.record('node', 'Expired', expired, new Date(Date.now() - 60000));
+        await journal.record('node', 'Pending', pending, future);
+        await journal.record('otherNode', 'Other', otherNode, future);
+
+        const repositoryFactory = ({
+            getNetworkType: () => of(networkType),
+            createTransactionStatusRepository: () => ({
+                getTransactionStatus: (hash: string) =>
+                    hash === confirmed.hash ? of({ group: TransactionGroupEnum.Confirmed }) : throwError(new Error('Not Found')),
+            }),
+        } as unknown) as RepositoryFactory;
+        const announced: string[] = [];
+        const transactionService = ({
+            announce: (signedTransaction: SignedTransaction) => {
+                announced.push(signedTransaction.hash);
+                return of(signedTransaction);
+            },
+        } as unknown) as TransactionService;
+
+        const waiting = await journal.resume('node', repositoryFactory, transactionService, ({} as unknown) as IListener);
+        expect(waiting).deep.eq([]);
+        expect(announced).deep.eq([pending.hash]);
+        expect(journal.load().map((t) => [t.description, t.status])).deep.eq([
+            ['Confirmed', JournalTransactionStatus.Confirmed],
+            ['Expired', JournalTransactionStatus.Expired],
+            ['Pending', JournalTransactionStatus.Confirmed],
+            ['Other', JournalTransactionStatus.Pending],
+        ]);
+    });
+});
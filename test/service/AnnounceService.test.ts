@@ -0,0 +1,129 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import {
+    Account,
+    AccountKeyLinkTransaction,
+    AggregateTransaction,
+    Deadline,
+    LinkAction,
+    NetworkType,
+    TransactionFees,
+    UInt64,
+    VrfKeyLinkTransaction,
+} from 'symbol-sdk';
+import { Addresses, ConfigPreset } from '../../src/model';
+import { AnnounceService, LinkParams, LinkService } from '../../src/service';
+
+describe('AnnounceService', () => {
+    const networkType = NetworkType.TEST_NET;
+    const account = Account.generateNewAccount(networkType);
+    const transactionFees = new TransactionFees(150, 100, 400, 0, 10);
+    const linkTransaction = AccountKeyLinkTransaction.create(
+        Deadline.create(1),
+        account.publicKey,
+        LinkAction.Link,
+        networkType,
+        UInt64.fromUint(0),
+    );
+
+    it('announces the link transactions one by one without --aggregate', () => {
+        const vrfLinkTransaction = VrfKeyLinkTransaction.create(
+            Deadline.create(1),
+            account.publicKey,
+            LinkAction.Link,
+            networkType,
+            UInt64.fromUint(0),
+        );
+        const transactions = [linkTransaction, vrfLinkTransaction];
+        const createNodeTransactions = (params: LinkParams) =>
+            AnnounceService.createNodeTransactions(
+                transactions,
+                account.publicAccount,
+                params.aggregate,
+                Deadline.create(1),
+                networkType,
+                UInt64.fromUint(0),
+            );
+        expect(AnnounceService.aggregateFlags.aggregate.default).eq(false);
+        expect(createNodeTransactions(LinkService.defaultParams)).deep.eq(transactions);
+        expect(createNodeTransactions({ ...LinkService.defaultParams, aggregate: false })).deep.eq(transactions);
+
+        const aggregated = createNodeTransactions({ ...LinkService.defaultParams, aggregate: true });
+        expect(aggregated.length).eq(1);
+        expect(aggregated[0]).instanceOf(AggregateTransaction);
+        expect((aggregated[0] as AggregateTransaction).innerTransactions.length).eq(2);
+    });
+
+    it('resolves the fee multiplier of the fee strategies', () => {
+        expect(AnnounceService.resolveFeeMultiplier('min', transactionFees)).eq(10);
+        expect(AnnounceService.resolveFeeMultiplier('average', transactionFees)).eq(150);
+        expect(AnnounceService.resolveFeeMultiplier('median', transactionFees)).eq(100);
+        expect(AnnounceService.resolveFeeMultiplier('high', transactionFees)).eq(400);
+        expect(AnnounceService.resolveFeeMultiplier('25', transactionFees)).eq(25);
+        expect(AnnounceService.resolveFeeMultiplier('median', new TransactionFees(0, 0, 0, 0, 10))).eq(10);
+        expect(() => AnnounceService.resolveFeeMultiplier('fast', transactionFees)).throw(
+            'Invalid fee strategy fast. Possible values are: min, average, median, high or a fixed fee multiplier.',
+        );
+    });
+
+    it('sets the max fee from the transaction size', () => {
+        expect(AnnounceService.setMaxFee(linkTransaction, 100, undefined).maxFee.compact()).eq(linkTransaction.size * 100);
+        const aggregate = AggregateTransaction.createComplete(
+            Deadline.create(1),
+            [
+                linkTransaction.toAggregate(account.publicAccount),
+                VrfKeyLinkTransaction.create(Deadline.create(1), account.publicKey, LinkAction.Link, networkType).toAggregate(
+                    account.publicAccount,
+                ),
+            ],
+            networkType,
+            [],
+        );
+        // Each cosignature adds 104 bytes.
+        expect(AnnounceService.setMaxFee(aggregate, 100, undefined, 2).maxFee.compact()).eq((aggregate.size + 2 * 104) * 100);
+    });
+
+    it('caps the max fee', () => {
+        const maxFeeCap = linkTransaction.size * 50 + 10;
+        const transaction = AnnounceService.setMaxFee(linkTransaction, 100, maxFeeCap);
+        expect(transaction.maxFee.compact()).eq(linkTransaction.size * 50);
+        expect(AnnounceService.setMaxFee(linkTransaction, 10, maxFeeCap).maxFee.compact()).eq(linkTransaction.size * 10);
+    });
+
+    it('sizes the hash lock duration from the bonded deadline', () => {
+        const presetData = { blockGenerationTargetTime: '15s', maxHashLockDuration: '2d' } as ConfigPreset;
+        expect(AnnounceService.getHashLockDuration(presetData, 1).compact()).eq(300);
+        expect(AnnounceService.getHashLockDuration(presetData, 24).compact()).eq(7200);
+        expect(AnnounceService.getHashLockDuration(presetData, AnnounceService.maxBondedDeadlineHours).compact()).eq(11520);
+    });
+
+    it('validates the bonded deadline', async () => {
+        const params = { target: 'target/tests.AnnounceService', url: 'http://localhost:3000', useKnownRestGateways: false };
+        for (const bondedDeadline of [-1, AnnounceService.maxBondedDeadlineHours + 1]) {
+            try {
+                await new AnnounceService().announce({ ...params, bondedDeadline }, {} as ConfigPreset, {} as Addresses, {
+                    createTransactions: async () => [],
+                });
+                expect.fail('Expected error');
+            } catch (e) {
+                expect(e.message).eq(`--bondedDeadline must be between 1 and ${AnnounceService.maxBondedDeadlineHours} hours.`);
+            }
+        }
+    });
+});
@@ -20,6 +20,7 @@ import * as _ from 'lodash';
 import 'mocha';
 import { it } from 'mocha';
 import { totalmem } from 'os';
+import { join } from 'path';
 import { Account, NetworkType } from 'symbol-sdk';
 import { ConfigAccount } from '../../src/model';
 import { BootstrapUtils, ConfigLoader, CryptoUtils } from '../../src/service';
@@ -236,4 +237,84 @@ describe('BootstrapUtils', () => {
 
         expect(BootstrapUtils.pruneEmpty(compose)).to.deep.eq(composePruned);
     });
+
+    it('applyPropertiesOverrides', () => {
+        const content = `[node]
+
+port = 7900
+maxIncomingConnectionsPerIdentity = 6
+
+[localnode]
+
+host = localhost
+`;
+        expect(
+            BootstrapUtils.applyPropertiesOverrides(
+                content,
+                { node: { port: 7901, maxCacheSize: 123 }, localnode: { host: 'my-host' }, newsection: { enabled: true } },
+                'config-node.properties',
+            ),
+        ).eq(`[node]
+
+port = 7901
+maxIncomingConnectionsPerIdentity = 6
+maxCacheSize = 123
+
+[localnode]
+
+host = my-host
+
+[newsection]
+
+enabled = true
+`);
+    });
+
+    it('generateConfiguration with properties overrides', async () => {
+        const target = 'target/tests.generateConfiguration';
+        BootstrapUtils.deleteFolder(target);
+        await BootstrapUtils.generateConfiguration({ nodePort: 7900 }, 'test/overrides', target, [], [], {
+            'config-node.properties': { node: { port: 8000, maxCacheSize: 123 } },
+        });
+        expect(BootstrapUtils.loadFileAsText(`${target}/resources/config-node.properties`)).eq(`[node]
+
+port = 8000
+maxCacheSize = 123
+`);
+        expect(BootstrapUtils.loadFileAsText(`${target}/resources/config-user.properties`)).eq(`[account]
+
+enableDelegatedHarvestersAutoDetection = true
+`);
+    });
+
+    it('getTemplatesFolders', () => {
+        expect(BootstrapUtils.getTemplatesFolders('.', undefined, 'node')).deep.eq([join('config', 'node')]);
+        expect(BootstrapUtils.getTemplatesFolders('.', 'test/templates', 'node')).deep.eq([
+            join('config', 'node'),
+            join('test', 'templates', 'node'),
+        ]);
+        expect(BootstrapUtils.getTemplatesFolders('.', 'test/templates', 'explorer')).deep.eq([join('config', 'explorer')]);
+    });
+
+    it('generateConfiguration with templates folder', async () => {
+        const target = 'target/tests.generateConfigurationTemplates';
+        BootstrapUtils.deleteFolder(target);
+        await BootstrapUtils.generateConfiguration({ nodePort: 7900 }, ['test/overrides', 'test/templates/node'], target, [], [], {
+            'config-node.properties': { node: { maxCacheSize: 123 } },
+        });
+        expect(BootstrapUtils.loadFileAsText(`${target}/resources/config-node.properties`)).eq(`[node]
+
+port = 7900
+maxIncomingConnectionsPerIdentity = 10
+maxCacheSize = 123
+`);
+        expect(BootstrapUtils.loadFileAsText(`${target}/resources/config-user.properties`)).eq(`[account]
+
+enableDelegatedHarvestersAutoDetection = true
+`);
+        expect(BootstrapUtils.loadFileAsText(`${target}/resources/config-extra.properties`)).eq(`[extra]
+
+enabled = true
+`);
+    });
 });
@@ -18,7 +18,7 @@ import { expect } from '@oclif/test';
 import 'mocha';
 import { Account, NetworkType } from 'symbol-sdk';
 import { ConfigAccount, PrivateKeySecurityMode } from '../../src/model';
-import { BootstrapUtils, ConfigLoader, KeyName, Preset } from '../../src/service';
+import { BootstrapUtils, ConfigLoader, CryptoUtils, KeyName, MnemonicUtils, Preset } from '../../src/service';
 
 class ConfigLoaderMocked extends ConfigLoader {
     public generateAccount = (
@@ -95,6 +95,158 @@ describe('ConfigLoader', () => {
         }
     });
 
+    it('loadCustomPresetFiles with extends', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        expect(configLoader.loadCustomPresetFiles('test/extends/environment.yml', false).map((layer) => layer.source)).deep.eq([
+            'test/extends/base.yml',
+            'test/extends/nodes/overlay.yml',
+            'test/extends/environment.yml',
+        ]);
+        expect(
+            configLoader
+                .loadCustomPresetFiles(['test/extends/nodes/overlay.yml', 'test/extends/base.yml'], false)
+                .map((layer) => layer.source),
+        ).deep.eq(['test/extends/base.yml', 'test/extends/nodes/overlay.yml']);
+        expect(configLoader.loadCustomPreset('test/extends/environment.yml', false)).deep.eq({
+            maxTransactionsPerBlock: 2000,
+            symbolServerImage: 'symbolplatform/symbol-server:environment',
+            nodes: [{ host: 'base-host', friendlyName: 'overlay-node' }],
+        });
+    });
+
+    it('loadCustomPresetFiles invalid extends', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        expect(() => configLoader.loadCustomPresetFiles('test/extends/cycle-a.yml', false)).to.throw(
+            `Custom preset 'test/extends/cycle-a.yml' cannot be extended in a cycle: test/extends/cycle-a.yml -> test/extends/cycle-b.yml -> test/extends/cycle-a.yml`,
+        );
+        expect(() => configLoader.loadCustomPresetFiles('test/extends/missing.yml', false)).to.throw(
+            `Custom preset 'test/extends/not-found.yml' extended by 'test/extends/missing.yml' doesn't exist.`,
+        );
+    });
+
+    it('ConfigLoader loadPresetData multiple custom presets', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        const presetData = configLoader.createPresetData({
+            root: '.',
+            preset: Preset.testnet,
+            assembly: 'dual',
+            customPreset: ['test/extends/nodes/overlay.yml', 'test/custom_preset.yml'],
+            password: false,
+        });
+        expect(presetData.maxTransactionsPerBlock).eq(2000);
+        expect(presetData.nodes?.[0].host).eq('base-host');
+        expect(presetData.nodes?.[0].friendlyName).eq('overlay-node');
+        expect((presetData as any).extends).undefined;
+    });
+
+    it('loadCustomPreset with interpolation', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        process.env.BOOTSTRAP_TEST_HOST = 'my-host.com';
+        process.env.BOOTSTRAP_TEST_PORT = '7901';
+        const key = 'CA7FE4F2A6D1A1B89B8E5F2CBE3A0D1E1C5B2A8F7E6D5C4B3A2918273645F0E1';
+        const customPreset = configLoader.loadCustomPreset('test/interpolation/custom-preset.yml', false);
+        expect(customPreset).deep.eq({
+            nodes: [
+                { host: 'my-host.com', nodePort: 7901, friendlyName: 'node-my-host.com', mainPrivateKey: key, beneficiaryAddress: key },
+            ],
+        });
+        expect(configLoader.getSecretValues()).deep.eq([key]);
+        // Every field with a secret value is removed, not only the private key fields.
+        expect(CryptoUtils.removePrivateKeys(customPreset, [], configLoader.getSecretValues())).deep.eq({
+            nodes: [{ host: 'my-host.com', nodePort: 7901, friendlyName: 'node-my-host.com' }],
+        });
+        const target = 'target/tests.ConfigLoader.interpolation';
+        BootstrapUtils.deleteFolder(target);
+        const presetData = configLoader.createPresetData({
+            root: '.',
+            preset: Preset.bootstrap,
+            customPreset: 'test/interpolation/custom-preset.yml',
+            password: false,
+        });
+        expect(presetData.nodes?.[0].beneficiaryAddress).eq(key);
+        await configLoader.writePresetData(target, presetData, undefined);
+        const writtenPreset = BootstrapUtils.loadFileAsText(configLoader.getGeneratedPresetLocation(target));
+        expect(writtenPreset).not.contain(key);
+        expect(writtenPreset).contain('my-host.com');
+        // Secret values are not removed from the addresses when the security mode keeps the keys.
+        const addresses = { nodes: [{ main: { privateKey: key } }] };
+        expect(CryptoUtils.removePrivateKeysAccordingToSecurityMode(addresses, PrivateKeySecurityMode.ENCRYPT)).deep.eq(addresses);
+        configLoader.createPresetData({ root: '.', preset: Preset.bootstrap, password: false });
+        expect(configLoader.getSecretValues()).deep.eq([]);
+        expect(() => configLoader.loadCustomPreset('test/interpolation/missing-env.yml', false)).to.throw(
+            `Environment variable BOOTSTRAP_TEST_MISSING_HOST used in custom preset 'test/interpolation/missing-env.yml' is not defined.`,
+        );
+        expect(() => configLoader.interpolate({ host: '${file:not-found.txt}' }, 'test/interpolation/custom-preset.yml')).to.throw(
+            `File test/interpolation/not-found.txt used in custom preset 'test/interpolation/custom-preset.yml' doesn't exist.`,
+        );
+    });
+
+    it('ConfigLoader loadPresetData external presets folder', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        const presetData = configLoader.createPresetData({
+            root: '.',
+            preset: 'privatenet',
+            presetsFolder: 'test/presetsFolder',
+            assembly: 'peer',
+            password: false,
+        });
+        expect(presetData.preset).eq('privatenet');
+        expect(presetData.presetsFolder).eq('test/presetsFolder');
+        expect(presetData.maxTransactionsPerBlock).eq(2000);
+        expect(presetData.nodes?.map((n) => n.name)).deep.eq(['private-peer-0']);
+        expect(ConfigLoader.getPresetFolder('.', 'testnet', 'test/presetsFolder')).eq('presets/testnet');
+        expect(() => ConfigLoader.getPresetFolder('.', 'othernet', 'test/presetsFolder')).to.throw(
+            `Preset 'othernet' could not be found in the presets folder 'test/presetsFolder'. Have you provided the right --preset <preset> --presetsFolder <presetsFolder> ?`,
+        );
+    });
+
+    it('custom preset migration', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        const expectedNode = {
+            mainPrivateKey: 'ENCRYPTED:00000000000000000000000000000000000000000000000000000000000000000000000000000000',
+            transportPublicKey: '7B6C78F5E1B0DE2F2C2A04E4FB7E1E6B1E3D6A5C9E7B5D4A2B2E8F9A1B2C3D4E',
+            friendlyName: 'my-node',
+        };
+        const layers = configLoader.loadCustomPresetFiles('test/migrate/old-custom-preset.yml', false);
+        expect(layers[0].version).eq(1);
+        expect(layers[0].preset).deep.eq({
+            rewardProgramEnrollmentAddress: 'TDL73SDUMPDK7EOF7H3O4F5WB5WHG2SX7XUSFZQ',
+            nodes: [expectedNode],
+        });
+
+        await BootstrapUtils.mkdir('target/tests.migrate');
+        const file = 'target/tests.migrate/custom-preset.yml';
+        await BootstrapUtils.writeTextFile(file, BootstrapUtils.loadFileAsText('test/migrate/old-custom-preset.yml'));
+        expect(await configLoader.migrateCustomPresetFile(file)).deep.eq([
+            'nodes[0].signingPrivateKey has been renamed to mainPrivateKey.',
+            'nodes[0].sslPublicKey has been renamed to transportPublicKey.',
+            'rewardProgramEnrolmentAddress has been renamed to rewardProgramEnrollmentAddress.',
+            'nodes[0].votingPrivateKey has been removed. Voting keys are stored in voting key files, see the updateVotingKeys command.',
+        ]);
+        expect(BootstrapUtils.loadYaml(file, false)).deep.eq({
+            version: configLoader.getCustomPresetVersion(),
+            rewardProgramEnrollmentAddress: 'TDL73SDUMPDK7EOF7H3O4F5WB5WHG2SX7XUSFZQ',
+            nodes: [expectedNode],
+        });
+        expect(await configLoader.migrateCustomPresetFile(file)).deep.eq([]);
+        expect(configLoader.loadCustomPresetFiles(file, false)[0].version).eq(configLoader.getCustomPresetVersion());
+    });
+
+    it('getOutdatedCustomPresets', async () => {
+        const configLoader = new ConfigLoaderMocked();
+        const layers = configLoader.loadCustomPresetFiles(['test/migrate/old-custom-preset.yml', 'test/custom_preset.yml'], false);
+        expect(layers.map((layer) => [layer.source, layer.version, layer.outdated])).deep.eq([
+            ['test/migrate/old-custom-preset.yml', 1, true],
+            ['test/custom_preset.yml', 1, false],
+        ]);
+        expect(
+            configLoader
+                .getOutdatedCustomPresets(['test/migrate/old-custom-preset.yml', 'test/custom_preset.yml'], false)
+                .map((layer) => layer.source),
+        ).deep.eq(['test/migrate/old-custom-preset.yml']);
+        expect(configLoader.getOutdatedCustomPresets('test/custom_preset.yml', false)).deep.eq([]);
+    });
+
     it('applyIndex', async () => {
         const configLoader = new ConfigLoaderMocked();
         const context = { $index: 10 };
@@ -544,4 +696,43 @@ describe('ConfigLoader', () => {
         const securityMode = PrivateKeySecurityMode.PROMPT_ALL;
         expect(() => configLoader.generateAccount(networkType, securityMode, KeyName.Remote, undefined, undefined, undefined)).throw;
     });
+
+    it('should generateAccount derived when the private key cannot be generated', () => {
+        const configLoader = new ConfigLoader();
+        const networkType = NetworkType.MIJIN_TEST;
+        const securityMode = PrivateKeySecurityMode.PROMPT_ALL;
+        const derivedAccount = Account.generateNewAccount(networkType);
+        const account = configLoader.generateAccount(
+            networkType,
+            securityMode,
+            KeyName.Main,
+            undefined,
+            undefined,
+            undefined,
+            derivedAccount.privateKey,
+        );
+        expect(account).deep.eq(ConfigLoader.toConfig(derivedAccount));
+    });
+
+    it('generateRandomConfiguration with mnemonic', async () => {
+        const configLoader = new ConfigLoader();
+        const createPresetData = () =>
+            configLoader.createPresetData({
+                root: '.',
+                preset: Preset.bootstrap,
+                password: false,
+                mnemonicFile: 'test/mnemonic/mnemonic.txt',
+            });
+        const presetData = createPresetData();
+        const addresses = await configLoader.generateRandomConfiguration(undefined, presetData);
+        expect(await configLoader.generateRandomConfiguration(undefined, createPresetData())).deep.eq(addresses);
+        const seed = MnemonicUtils.toSeed(BootstrapUtils.loadFileAsText('test/mnemonic/mnemonic.txt'));
+        expect(addresses.nodes?.[1].transport.privateKey).eq(
+            MnemonicUtils.derivePrivateKey(seed, MnemonicUtils.getNodeKeyPath(presetData.networkType, 1, KeyName.Transport)),
+        );
+        expect(addresses.mosaics?.[0].accounts[2].privateKey).eq(
+            MnemonicUtils.derivePrivateKey(seed, MnemonicUtils.getNemesisAccountPath(presetData.networkType, 0, 2)),
+        );
+        expect(CryptoUtils.removePrivateKeys(presetData).mnemonic).undefined;
+    });
 });
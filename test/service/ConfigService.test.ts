@@ -15,7 +15,12 @@
  */
 
 import { expect } from '@oclif/test';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
 import 'mocha';
+import { LogType } from '../../src/logger';
+import LoggerFactory from '../../src/logger/LoggerFactory';
+import { ConfigPreset } from '../../src/model';
 import { ConfigService, CryptoUtils, Preset } from '../../src/service';
 
 describe('ConfigService', () => {
@@ -161,4 +166,55 @@ describe('ConfigService', () => {
             CryptoUtils.removePrivateKeys(configResultInitial.presetData),
         );
     });
+
+    it('ConfigService overridden templates hashes', async () => {
+        const service = new ConfigService('.', { ...ConfigService.defaultParams, target: 'target/tests/ConfigService.templates' });
+        const resolveOverriddenTemplates = (presetData: ConfigPreset, oldPresetData: ConfigPreset | undefined): void =>
+            (service as any).resolveOverriddenTemplates(presetData, oldPresetData);
+        const template = 'node/resources/config-node.properties.mustache';
+        const bundledHash = createHash('sha256')
+            .update(readFileSync(`config/${template}`))
+            .digest('hex');
+        const logger = LoggerFactory.getLogger(LogType.System);
+        const warn = logger.warn;
+        const warnings: string[] = [];
+        logger.warn = ((message: string) => {
+            warnings.push(message);
+            return logger;
+        }) as any;
+        try {
+            // The first configuration tracks the bundled version of the overridden templates. Added templates are not tracked.
+            const presetData = { templatesFolder: 'test/templates' } as ConfigPreset;
+            resolveOverriddenTemplates(presetData, undefined);
+            expect(presetData.overriddenTemplates).deep.eq({ [template]: bundledHash });
+            expect(warnings).deep.eq([]);
+
+            // Unchanged bundled template.
+            const unchangedPresetData = ({
+                templatesFolder: 'test/templates',
+                overriddenTemplates: { other: 'hash' },
+            } as unknown) as ConfigPreset;
+            resolveOverriddenTemplates(unchangedPresetData, presetData);
+            expect(unchangedPresetData.overriddenTemplates).deep.eq({ [template]: bundledHash });
+            expect(warnings).deep.eq([]);
+
+            // Changed bundled template.
+            const changedPresetData = { templatesFolder: 'test/templates' } as ConfigPreset;
+            resolveOverriddenTemplates(changedPresetData, ({
+                overriddenTemplates: { [template]: 'previous-hash' },
+            } as unknown) as ConfigPreset);
+            expect(changedPresetData.overriddenTemplates).deep.eq({ [template]: bundledHash });
+            expect(warnings).deep.eq([
+                `Bundled template ${template} has changed since the last configuration. Review your override in test/templates, it may need the same changes.`,
+            ]);
+
+            // No templates folder, nothing is tracked.
+            const noTemplatesPresetData = ({ overriddenTemplates: { [template]: 'previous-hash' } } as unknown) as ConfigPreset;
+            resolveOverriddenTemplates(noTemplatesPresetData, changedPresetData);
+            expect(noTemplatesPresetData.overriddenTemplates).undefined;
+            expect(warnings.length).eq(1);
+        } finally {
+            logger.warn = warn;
+        }
+    });
 });
@@ -0,0 +1,137 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { of } from 'rxjs';
+import {
+    Account,
+    AccountKeyLinkTransaction,
+    AggregateTransaction,
+    Deadline,
+    LinkAction,
+    MultisigAccountInfo,
+    NetworkType,
+    Page,
+    RepositoryFactory,
+    Transaction,
+    TransactionGroup,
+    TransactionInfo,
+    TransactionSearchCriteria,
+    TransactionType,
+    UInt64,
+} from 'symbol-sdk';
+import { CosignService } from '../../src/service';
+
+describe('CosignService', () => {
+    const networkType = NetworkType.TEST_NET;
+    const multisig = Account.generateNewAccount(networkType);
+    const cosigners = [1, 2, 3].map(() => Account.generateNewAccount(networkType));
+    const multisigAccountInfo = new MultisigAccountInfo(
+        1,
+        multisig.address,
+        2,
+        1,
+        cosigners.map((c) => c.address),
+        [],
+    );
+
+    it('resolves the missing cosignatures', () => {
+        expect(CosignService.getMissingCosignatures(multisigAccountInfo, [cosigners[1].address])).deep.eq({
+            required: 1,
+            pending: [cosigners[0].address, cosigners[2].address],
+        });
+        expect(CosignService.getMissingCosignatures(multisigAccountInfo, [cosigners[0].address, cosigners[2].address])).deep.eq({
+            required: 0,
+            pending: [cosigners[1].address],
+        });
+    });
+
+    it('describes the missing cosignatures', () => {
+        const missing = CosignService.getMissingCosignatures(multisigAccountInfo, [cosigners[0].address]);
+        expect(CosignService.describeMissingCosignatures('ABC', missing)).eq(
+            `Aggregate Bonded Transaction ABC requires 1 more cosignatures from: ${cosigners[1].address.plain()}, ${cosigners[2].address.plain()}. Each cosigner can sign it with 'symbol-bootstrap cosign --hash ABC'.`,
+        );
+        expect(CosignService.describeMissingCosignatures('ABC', { required: 0, pending: [] })).eq(
+            'Aggregate Bonded Transaction ABC has all the required cosignatures. It will be confirmed shortly.',
+        );
+    });
+
+    const createAggregate = (hash: string): AggregateTransaction => {
+        const link = AccountKeyLinkTransaction.create(
+            Deadline.create(1616694977),
+            cosigners[2].publicKey,
+            LinkAction.Link,
+            networkType,
+        ).toAggregate(multisig.publicAccount);
+        return new AggregateTransaction(
+            networkType,
+            TransactionType.AGGREGATE_BONDED,
+            1,
+            Deadline.create(1616694977),
+            UInt64.fromUint(0),
+            [link],
+            [],
+            undefined,
+            cosigners[1].publicAccount,
+            new TransactionInfo(UInt64.fromUint(0), 0, '1', hash),
+        );
+    };
+
+    it('describes the aggregate with the linked keys and signers', () => {
+        expect(CosignService.describeAggregate(createAggregate('ABC'))).eq(
+            `AggregateBondedTransaction - Hash: ABC - Signer ${cosigners[1].address.plain()} - Inner transactions:\n` +
+                `  - AccountKeyLinkTransaction Link public key ${cosigners[2].publicKey} - Signer ${multisig.address.plain()}`,
+        );
+    });
+
+    it('searches the partial transactions of the multisig accounts page by page', async () => {
+        const hashes = [...Array(CosignService.pageSize + 1).keys()].map((index) => `HASH${index}`);
+        const searches: string[] = [];
+        const repositoryFactory = ({
+            createMultisigRepository: () => ({
+                getMultisigAccountInfo: () => of(new MultisigAccountInfo(1, cosigners[0].address, 0, 0, [], [multisig.address])),
+            }),
+            createTransactionRepository: () => ({
+                search: (criteria: TransactionSearchCriteria) => {
+                    const pageNumber = criteria.pageNumber || 1;
+                    searches.push(`${criteria.address?.plain()} ${pageNumber}`);
+                    expect(criteria.group).eq(TransactionGroup.Partial);
+                    const data: Transaction[] = criteria.address?.equals(multisig.address)
+                        ? hashes.slice((pageNumber - 1) * CosignService.pageSize, pageNumber * CosignService.pageSize).map(createAggregate)
+                        : [createAggregate(hashes[0])];
+                    return of(new Page(data, pageNumber, CosignService.pageSize));
+                },
+                getTransaction: (hash: string) => of(createAggregate(hash)),
+            }),
+        } as unknown) as RepositoryFactory;
+        const aggregates = await new CosignService({ url: '', privateKey: cosigners[0].privateKey }).getPartialTransactions(
+            repositoryFactory,
+            cosigners[0],
+        );
+        expect(aggregates.map((a) => a.transactionInfo?.hash)).deep.eq(hashes);
+        expect(searches).deep.eq([`${cosigners[0].address.plain()} 1`, `${multisig.address.plain()} 1`, `${multisig.address.plain()} 2`]);
+    });
+
+    it('cosign when down', async () => {
+        try {
+            await new CosignService({ url: 'http://localhost:3000', privateKey: cosigners[0].privateKey, ready: true }).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).contain('No up and running node could be found out of:');
+        }
+    });
+});
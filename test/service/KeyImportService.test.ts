@@ -0,0 +1,83 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { BootstrapUtils, ConfigLoader, CryptoUtils, KeyImportParams, KeyImportService } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('KeyImportService', () => {
+    const target = 'target/tests.KeyImportService';
+    const password = '1234';
+    const configLoader = new ConfigLoader();
+    const params: KeyImportParams = {
+        target,
+        password,
+        file: 'test/import/wallet-profile.json',
+        walletPassword: 'wallet-password',
+        key: 'main',
+        node: 'peer-node-0',
+    };
+
+    before(async () => {
+        await TestUtils.createBootstrapTarget(target, password);
+    });
+
+    it('imports a wallet profile account', async () => {
+        await new KeyImportService({ ...params, account: 'harvester', key: 'remote' }).run();
+        const addresses = configLoader.loadExistingAddresses(target, password);
+        expect(addresses.nodes?.[0].remote?.privateKey).eq('86C62A4C6CE8E356141638F62236F3D8B8623038FD8627B0B474B3EA5391DFA6');
+        expect(CryptoUtils.encryptedCount(BootstrapUtils.loadYaml(configLoader.getGeneratedAddressLocation(target), false))).gt(0);
+    });
+
+    it('imports a keystore account', async () => {
+        await new KeyImportService({ ...params, file: 'test/import/keystore.json', node: 'api-node-0', key: 'transport' }).run();
+        const addresses = configLoader.loadExistingAddresses(target, password);
+        const apiNode = addresses.nodes?.find((node) => node.name === 'api-node-0');
+        expect(apiNode?.transport).deep.eq({
+            privateKey: '5F8B8ED1AC246554227906DAD2C018937F197E5179C2059FD69B399EB19973B6',
+            publicKey: apiNode?.transport.publicKey,
+            address: 'TBSNQLDJKTRNAJZHAXIKTBWSSYAYZO4AAVQ2L5Y',
+        });
+    });
+
+    it('invalid imports', async () => {
+        const expectError = async (invalidParams: Partial<KeyImportParams>, message: string) => {
+            try {
+                await new KeyImportService({ ...params, ...invalidParams }).run();
+                expect.fail('Expected error');
+            } catch (e) {
+                expect(e.message).eq(message);
+            }
+        };
+        await expectError(
+            {},
+            'The account must be provided (--account). Possible values are: Seed Account 1 (TBMC2M7L32BX7BC7VHL3KYIQ6G2KGB3CYCNWNSI), harvester (TAKHWY7KUWFSS5REDLZMPGYIMWQQAZ5CW5HEGXI)',
+        );
+        await expectError(
+            { account: 'harvester', walletPassword: 'wrong-password' },
+            'Account TAKHWY7KUWFSS5REDLZMPGYIMWQQAZ5CW5HEGXI cannot be decrypted. Have you provided the right wallet password?',
+        );
+        await expectError(
+            { file: 'test/import/keystore.json', node: 'unknown-node' },
+            'Node unknown-node could not be found. Possible values are: peer-node-0, peer-node-1, api-node-0',
+        );
+        await expectError(
+            { file: 'test/import/mainnet-keystore.json' },
+            'Account NDWNXXHB4HLPG2G3W6OK42PFZKKDQNZLOJ2EVNI is a public account but the target network is publicTest.',
+        );
+    });
+});
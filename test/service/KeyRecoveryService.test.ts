@@ -0,0 +1,54 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { BootstrapUtils, KeyRecoveryService } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('KeyRecoveryService', () => {
+    const target = 'target/tests.KeyRecoveryService';
+
+    before(async () => {
+        BootstrapUtils.deleteFolder(target);
+        const { presetData, addresses } = await TestUtils.createBootstrapConfiguration('test/mnemonic/mnemonic.txt');
+        await TestUtils.writeTarget(target, presetData, addresses);
+    });
+
+    it('recovers the keys with the same mnemonic', async () => {
+        const keys = await new KeyRecoveryService('.', { target, password: false, mnemonicFile: 'test/mnemonic/mnemonic.txt' }).run();
+        expect(keys.map((key) => key.name)).contain.members(['Sink Address', 'Nemesis Signer', 'peer-node-0 Main', 'api-node-0 Transport']);
+        keys.forEach((key) => expect(key.recovered, key.name).eq(key.existing));
+    });
+
+    it('fails when the mnemonic is different', async () => {
+        try {
+            await new KeyRecoveryService('.', { target, password: false, mnemonicFile: 'test/mnemonic/other-mnemonic.txt' }).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).match(/keys are different from the ones in target\/tests.KeyRecoveryService\/addresses.yml/);
+        }
+    });
+
+    it('fails when the mnemonic is not provided', async () => {
+        try {
+            await new KeyRecoveryService('.', { target, password: false }).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).eq(`Mnemonic has not been provided. Use --mnemonicFile or the custom preset's mnemonic property.`);
+        }
+    });
+});
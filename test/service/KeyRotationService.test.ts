@@ -0,0 +1,115 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { Account, Deadline, LinkAction, NodeKeyLinkTransaction, TransactionType, UInt64 } from 'symbol-sdk';
+import { BootstrapUtils, ConfigLoader, CryptoUtils, KeyRotationParams, KeyRotationService, LinkService } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('KeyRotationService', () => {
+    const target = 'target/tests.KeyRotationService';
+    const password = '1234';
+    const configLoader = new ConfigLoader();
+    const params: KeyRotationParams = {
+        ...LinkService.defaultParams,
+        target,
+        password,
+        key: 'remote',
+        node: 'peer-node-0',
+        user: BootstrapUtils.CURRENT_USER,
+        ready: true,
+    };
+    const linkedRemotePublicKey = '09DA71927DCBB67FD0352CFC16114BE51B87538E0AA8FC64233439E3DBAC87FB';
+    const mainAccountInfo = TestUtils.createMainAccountInfo({ linked: { publicKey: linkedRemotePublicKey } });
+
+    before(async () => {
+        await TestUtils.createBootstrapTarget(target, password);
+    });
+
+    const createTransactions = (key: 'remote' | 'vrf', nodeName: string) => {
+        const presetData = configLoader.loadExistingPresetData(target, password);
+        const addresses = configLoader.loadExistingAddresses(target, password);
+        const newAccount = ConfigLoader.toConfig(Account.generateNewAccount(presetData.networkType));
+        const transactions = new KeyRotationService('.', { ...params, key }).createTransactions(nodeName, newAccount, {
+            presetData,
+            nodeAccount: addresses.nodes![0],
+            mainAccountInfo,
+            deadline: Deadline.create(1),
+            maxFee: UInt64.fromUint(10),
+        });
+        return { newAccount, transactions };
+    };
+
+    it('creates the unlink old and link new transactions', async () => {
+        const { newAccount, transactions } = createTransactions('remote', 'peer-node-0');
+        const [unlink, link] = (await transactions) as NodeKeyLinkTransaction[];
+        expect(unlink.type).eq(TransactionType.ACCOUNT_KEY_LINK);
+        expect(unlink.linkAction).eq(LinkAction.Unlink);
+        expect(unlink.linkedPublicKey).eq(linkedRemotePublicKey);
+        expect(link.type).eq(TransactionType.ACCOUNT_KEY_LINK);
+        expect(link.linkAction).eq(LinkAction.Link);
+        expect(link.linkedPublicKey).eq(newAccount.publicKey);
+    });
+
+    it('creates the link transaction when the key is not linked', async () => {
+        const { newAccount, transactions } = createTransactions('vrf', 'peer-node-0');
+        const [link, ...others] = (await transactions) as NodeKeyLinkTransaction[];
+        expect(others).deep.eq([]);
+        expect(link.type).eq(TransactionType.VRF_KEY_LINK);
+        expect(link.linkAction).eq(LinkAction.Link);
+        expect(link.linkedPublicKey).eq(newAccount.publicKey);
+    });
+
+    it('does not create transactions for the other nodes', async () => {
+        expect(await createTransactions('remote', 'api-node-0').transactions).deep.eq([]);
+    });
+
+    it('does not update the addresses when the announce fails', async () => {
+        const addressesLocation = configLoader.getGeneratedAddressLocation(target);
+        const addresses = BootstrapUtils.loadFileAsText(addressesLocation);
+        try {
+            await new KeyRotationService('.', params).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).contain('No up and running node could be found out of:');
+        }
+        expect(BootstrapUtils.loadFileAsText(addressesLocation)).eq(addresses);
+    });
+
+    it('resumes the pending rotation with the same account', async () => {
+        const pendingAccountLocation = `${target}/rollback/peer-node-0-remote-pending.yml`;
+        const pendingAccount = BootstrapUtils.loadYaml(pendingAccountLocation, password);
+        expect(CryptoUtils.encryptedCount(BootstrapUtils.loadYaml(pendingAccountLocation, false))).eq(1);
+        expect(pendingAccount.publicKey).not.eq(configLoader.loadExistingAddresses(target, password).nodes![0].remote!.publicKey);
+        try {
+            await new KeyRotationService('.', params).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).contain('No up and running node could be found out of:');
+        }
+        expect(BootstrapUtils.loadYaml(pendingAccountLocation, password)).deep.eq(pendingAccount);
+    });
+
+    it('invalid node', async () => {
+        try {
+            await new KeyRotationService('.', { ...params, node: 'unknown-node' }).run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).eq('Node unknown-node could not be found. Possible values are: peer-node-0, peer-node-1, api-node-0');
+        }
+    });
+});
@@ -0,0 +1,61 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { LinkAuditService } from '../../src/service';
+
+describe('LinkAuditService', () => {
+    const remote = { publicKey: '09DA71927DCBB67FD0352CFC16114BE51B87538E0AA8FC64233439E3DBAC87FB' };
+    const otherRemote = { publicKey: 'A8443EE1BE131A300D321BAF116E18F6A339BB2FF16C02ED0C4D6C1EB71A648B' };
+    const vrf = { publicKey: '7C2B0A9E0D6DC2B1CEE1B7B38D6C68B8D3E0E4E5D6D4B1E7C8A2A5C7B3F0F1A2' };
+    const voting1 = { publicKey: '1111111111111111111111111111111111111111111111111111111111111111', startEpoch: 1, endEpoch: 100 };
+    const voting2 = { publicKey: '2222222222222222222222222222222222222222222222222222222222222222', startEpoch: 101, endEpoch: 200 };
+    const voting3 = { publicKey: '3333333333333333333333333333333333333333333333333333333333333333', startEpoch: 150, endEpoch: 250 };
+    const voting4 = { publicKey: '4444444444444444444444444444444444444444444444444444444444444444', startEpoch: 300, endEpoch: 400 };
+
+    it('classifies the keys', () => {
+        const entries = LinkAuditService.audit(
+            'node',
+            { remote, vrf, voting: [voting1, voting2] },
+            { remote: otherRemote, voting: [voting1, voting3, voting4] },
+            120,
+            'symbol-bootstrap link --url http://localhost:3000',
+        );
+        expect(entries.map((e) => [e.key, e.publicKey.substring(0, 4), e.status])).deep.eq([
+            ['remote', 'A844', 'foreign'],
+            ['vrf', '7C2B', 'missing'],
+            ['voting', '1111', 'stale'],
+            ['voting', '3333', 'foreign'],
+            ['voting', '4444', 'foreign'],
+            ['voting', '2222', 'missing'],
+        ]);
+        expect(entries[0].fix).eq(
+            `Run 'symbol-bootstrap link --url http://localhost:3000' and confirm the unlink to replace it with ${remote.publicKey}.`,
+        );
+        expect(entries[1].fix).eq(`Run 'symbol-bootstrap link --url http://localhost:3000'.`);
+        expect(entries[4].fix).eq('Unlink it with the wallet that linked it, it does not overlap any voting key file of the node.');
+    });
+
+    it('ok keys', () => {
+        const entries = LinkAuditService.audit('node', { remote, voting: [voting2] }, { remote, vrf, voting: [voting2] }, 120);
+        expect(entries.map((e) => [e.key, e.status, e.fix])).deep.eq([
+            ['remote', 'ok', undefined],
+            ['vrf', 'foreign', `Import the vrf key with 'symbol-bootstrap keys:import' or unlink it with the wallet that linked it.`],
+            ['voting', 'ok', undefined],
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { NetworkType } from 'symbol-sdk';
+import { CryptoUtils, KeyName, MnemonicUtils } from '../../src/service';
+
+describe('MnemonicUtils', () => {
+    const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+    it('toSeed BIP39 vectors', () => {
+        expect(MnemonicUtils.toSeed(mnemonic).toString('hex')).eq(
+            '5eb00bbddcf069084889a8ab9155568165f5c453ccb85e70811aaed6f6da5fc19a5ac40b389cd370d086206dec8aa6c43daea6690f20ad3d8d48b2d2ce9e38e4',
+        );
+        expect(MnemonicUtils.toSeed(mnemonic, 'TREZOR').toString('hex')).eq(
+            'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+        );
+        expect(() => MnemonicUtils.toSeed('abandon about')).throw(
+            'Invalid mnemonic. The number of words or the BIP39 checksum is invalid.',
+        );
+        expect(() => MnemonicUtils.toSeed(mnemonic.replace('about', 'abandon'))).throw(
+            'Invalid mnemonic. The number of words or the BIP39 checksum is invalid.',
+        );
+        expect(() => MnemonicUtils.toSeed(mnemonic.replace('about', 'aboot').replace('abandon', 'abandn'))).throw(
+            'Invalid mnemonic. Words abandn, aboot are not in the BIP39 english wordlist.',
+        );
+    });
+
+    it('derivePrivateKey SLIP-10 ed25519 vectors', () => {
+        const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+        expect(MnemonicUtils.derivePrivateKey(seed, 'm')).eq('2B4BE7F19EE27BBF30C667B642D5F4AA69FD169872F8FC3059C08EBAE2EB19E7');
+        expect(MnemonicUtils.derivePrivateKey(seed, "m/0'")).eq('68E0FE46DFB67E368C75379ACEC591DAD19DF3CDE26E63B93A8E704F1DADE7A3');
+        expect(MnemonicUtils.derivePrivateKey(seed, "m/0'/1'/2'/2'/1000000000'")).eq(
+            '8F94D394A8E8FD6B1BC2F3F49F5C47E385281D5C17E65324B0F62483E37E8793',
+        );
+        expect(() => MnemonicUtils.derivePrivateKey(seed, 'm/0')).throw(
+            `Invalid derivation path m/0. Only hardened paths like m/44'/4343'/0'/0'/0' are supported.`,
+        );
+    });
+
+    it('derivation paths', () => {
+        expect(MnemonicUtils.getNodeKeyPath(NetworkType.MAIN_NET, 0, KeyName.Main)).eq(`m/44'/4343'/0'/0'/0'`);
+        expect(MnemonicUtils.getNodeKeyPath(NetworkType.TEST_NET, 2, KeyName.VRF)).eq(`m/44'/1'/2'/0'/3'`);
+        expect(MnemonicUtils.getNemesisSignerPath(NetworkType.TEST_NET)).eq(`m/44'/1'/0'/1'/0'`);
+        expect(MnemonicUtils.getNemesisAccountPath(NetworkType.TEST_NET, 1, 5)).eq(`m/44'/1'/1'/2'/5'`);
+        expect(() => MnemonicUtils.getNodeKeyPath(NetworkType.TEST_NET, 0, KeyName.Voting)).throw(
+            'Voting key cannot be derived from the mnemonic.',
+        );
+    });
+
+    it('loadMnemonicFile', () => {
+        const loaded = MnemonicUtils.loadMnemonicFile('test/mnemonic/mnemonic.txt');
+        expect(loaded).eq(mnemonic);
+        expect(CryptoUtils.removePrivateKeys({ mnemonic: loaded, value: 'other' })).deep.eq({ value: 'other' });
+        expect(() => MnemonicUtils.loadMnemonicFile('test/mnemonic/missing.txt')).throw(
+            `Mnemonic file test/mnemonic/missing.txt doesn't exist!`,
+        );
+    });
+});
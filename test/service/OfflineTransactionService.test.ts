@@ -0,0 +1,186 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import {
+    Account,
+    AccountKeyLinkTransaction,
+    AggregateTransaction,
+    Deadline,
+    LinkAction,
+    NetworkType,
+    PlainMessage,
+    Transaction,
+    TransferTransaction,
+    UInt64,
+} from 'symbol-sdk';
+import { BootstrapUtils, OfflineTransactionService, OfflineTransactionsFile } from '../../src/service';
+
+describe('OfflineTransactionService', () => {
+    const target = 'target/tests.OfflineTransactionService';
+    const networkType = NetworkType.TEST_NET;
+    const generationHash = '3B5E1FA6445653C971A50687E75E6D09FB30481055E3990C84B25E9222DC1155';
+    const epochAdjustment = 1616694977;
+    const mainAccount = Account.createFromPrivateKey('CA82E7ADAF7AB729A5462A1BD5AA78632390634904A64EB1BB22295E2E1A1BDD', networkType);
+    const remoteAccount = Account.generateNewAccount(networkType);
+    const customPreset = `${target}/main-keys.yml`;
+
+    const createLinkTransaction = (deadline: Deadline, transactionNetworkType = networkType) =>
+        AccountKeyLinkTransaction.create(
+            deadline,
+            remoteAccount.publicKey,
+            LinkAction.Link,
+            transactionNetworkType,
+            UInt64.fromUint(20000),
+        );
+
+    const writeUnsignedFile = async (deadline: Deadline, transaction: Transaction = createLinkTransaction(deadline)): Promise<string> => {
+        const file = `${target}/unsigned.json`;
+        await OfflineTransactionService.writeTransactionsFile(file, {
+            version: OfflineTransactionService.fileVersion,
+            networkType,
+            generationHash,
+            epochAdjustment,
+            transactions: [
+                {
+                    node: 'my-node',
+                    signerPublicKey: mainAccount.publicKey,
+                    description: 'AccountKeyLinkTransaction - MaxFee 0.02',
+                    payload: transaction.serialize(),
+                },
+            ],
+        });
+        return file;
+    };
+
+    before(async () => {
+        BootstrapUtils.deleteFolder(target);
+        await BootstrapUtils.writeYaml(customPreset, { nodes: [{ mainPrivateKey: mainAccount.privateKey }] }, undefined);
+    });
+
+    it('signs the unsigned transactions', async () => {
+        const unsigned = await writeUnsignedFile(Deadline.create(epochAdjustment, OfflineTransactionService.deadlineHours));
+        const signed = `${target}/signed.json`;
+        const unsignedFile = OfflineTransactionService.loadTransactionsFile(unsigned);
+        await new OfflineTransactionService().sign({ unsigned, signed, customPreset, ready: true });
+        const signedFile: OfflineTransactionsFile = OfflineTransactionService.loadTransactionsFile(signed);
+        const transaction = signedFile.transactions[0];
+        const expected = mainAccount.sign(
+            AccountKeyLinkTransaction.createFromPayload(unsignedFile.transactions[0].payload),
+            generationHash,
+        );
+        expect(transaction.hash).eq(expected.hash);
+        expect(transaction.payload).eq(expected.payload);
+        expect(signedFile).deep.eq({ ...unsignedFile, transactions: [{ ...unsignedFile.transactions[0], ...transaction }] });
+    });
+
+    it('does not sign expired transactions', async () => {
+        const unsigned = await writeUnsignedFile(Deadline.createFromDTO('1000'));
+        try {
+            await new OfflineTransactionService().sign({ unsigned, signed: `${target}/expired.json`, customPreset, ready: true });
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).eq(
+                `Transaction AccountKeyLinkTransaction Link public key ${remoteAccount.publicKey} - MaxFee 20000 (absolute) of node my-node has expired. Export the transactions again.`,
+            );
+        }
+    });
+
+    it('only signs the link transactions of the main account', async () => {
+        const deadline = Deadline.create(epochAdjustment, OfflineTransactionService.deadlineHours);
+        const otherAccount = Account.generateNewAccount(networkType);
+        const expectSignError = async (transaction: Transaction, message: string, maxFeeCap?: number) => {
+            const unsigned = await writeUnsignedFile(deadline, transaction);
+            try {
+                await new OfflineTransactionService().sign({
+                    unsigned,
+                    signed: `${target}/invalid.json`,
+                    customPreset,
+                    maxFeeCap,
+                    ready: true,
+                });
+                expect.fail('Expected error');
+            } catch (e) {
+                expect(e.message).eq(message);
+            }
+        };
+        const transfer = TransferTransaction.create(
+            deadline,
+            otherAccount.address,
+            [],
+            PlainMessage.create('all the funds'),
+            networkType,
+            UInt64.fromUint(20000),
+        );
+        await expectSignError(
+            transfer,
+            'Transaction TransferTransaction - MaxFee 20000 (absolute) of node my-node cannot be signed. Only key link transactions or aggregate complete transactions of them are allowed.',
+        );
+        const link = createLinkTransaction(deadline);
+        const linkDescription = `AccountKeyLinkTransaction Link public key ${remoteAccount.publicKey}`;
+        await expectSignError(
+            AggregateTransaction.createComplete(
+                deadline,
+                [link.toAggregate(mainAccount.publicAccount), transfer.toAggregate(mainAccount.publicAccount)],
+                networkType,
+                [],
+                UInt64.fromUint(30000),
+            ),
+            `Transaction AggregateTransaction [${linkDescription}, TransferTransaction] - MaxFee 30000 (absolute) of node my-node cannot be signed. Only key link transactions or aggregate complete transactions of them are allowed.`,
+        );
+        await expectSignError(
+            AggregateTransaction.createComplete(
+                deadline,
+                [link.toAggregate(otherAccount.publicAccount)],
+                networkType,
+                [],
+                UInt64.fromUint(30000),
+            ),
+            `Transaction AggregateTransaction [${linkDescription}] - MaxFee 30000 (absolute) of node my-node is not signed by the node's main account ${mainAccount.publicKey}.`,
+        );
+        await expectSignError(
+            createLinkTransaction(deadline, NetworkType.MAIN_NET),
+            `Transaction ${linkDescription} - MaxFee 20000 (absolute) of node my-node is not a TEST_NET transaction.`,
+        );
+        await expectSignError(
+            link,
+            `Transaction ${linkDescription} - MaxFee 20000 (absolute) of node my-node max fee is over the max fee cap 10000.`,
+            10000,
+        );
+    });
+
+    it('does not announce unsigned transactions', async () => {
+        const signed = await writeUnsignedFile(Deadline.create(epochAdjustment));
+        try {
+            await new OfflineTransactionService().announce({ signed, url: 'http://localhost:3000', useKnownRestGateways: false });
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).eq(
+                `1 transactions of file ${signed} are not signed. Run 'symbol-bootstrap sign' in the offline machine first.`,
+            );
+        }
+    });
+
+    it('invalid transactions file', async () => {
+        expect(() => OfflineTransactionService.loadTransactionsFile('test/import/keystore.json')).throw(
+            'File test/import/keystore.json is not a transactions file exported by symbol-bootstrap.',
+        );
+        expect(() => OfflineTransactionService.loadTransactionsFile(`${target}/missing.json`)).throw(
+            `Transactions file ${target}/missing.json doesn't exist!`,
+        );
+    });
+});
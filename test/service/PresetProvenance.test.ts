@@ -0,0 +1,82 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { ConfigLoader, Preset, PresetProvenance } from '../../src/service';
+
+describe('PresetProvenance', () => {
+    const createPresetData = (provenance: PresetProvenance) =>
+        new ConfigLoader().createPresetData({
+            root: '.',
+            preset: Preset.testnet,
+            assembly: 'dual',
+            password: false,
+            customPresetObject: {
+                maxTransactionsPerBlock: 1000,
+                nodes: [{ repeat: 2, name: 'node-{{$index}}', syncsource: false }],
+                inflation: { 'starting-at-height-2': 10 },
+            },
+            provenance,
+        });
+
+    it('explains root properties', () => {
+        const provenance = new PresetProvenance();
+        const presetData = createPresetData(provenance);
+        expect(provenance.explain(presetData, 'maxTransactionsPerBlock')).deep.eq({
+            property: 'maxTransactionsPerBlock',
+            node: undefined,
+            value: 1000,
+            origins: [
+                { source: 'presets/shared.yml', value: 6000 },
+                { source: 'custom preset object', value: 1000 },
+            ],
+        });
+        expect(provenance.explain(presetData, 'inflation').origins).deep.eq([
+            { source: 'custom preset object', value: { 'starting-at-height-2': 10 } },
+        ]);
+    });
+
+    it('explains node properties', () => {
+        const provenance = new PresetProvenance();
+        const presetData = createPresetData(provenance);
+        expect(provenance.explain(presetData, 'name', 'node-1')).deep.eq({
+            property: 'name',
+            node: 'node-1',
+            value: 'node-1',
+            origins: [
+                { source: 'presets/testnet/assembly-dual.yml', value: 'node' },
+                { source: 'custom preset object', value: 'node-{{$index}}' },
+            ],
+        });
+        expect(provenance.explain(presetData, 'filespooling', 'node-1').origins).deep.eq([
+            { source: PresetProvenance.dynamicDefaultsSource, value: true },
+        ]);
+        expect(provenance.explain(presetData, 'syncsource', 'node-0').origins).deep.eq([{ source: 'custom preset object', value: false }]);
+        expect(provenance.explain(presetData, 'maxTransactionsPerBlock', 'node-0').value).eq(1000);
+    });
+
+    it('unknown property or node', () => {
+        const provenance = new PresetProvenance();
+        const presetData = createPresetData(provenance);
+        expect(() => provenance.explain(presetData, 'maxTransactionPerBlock')).to.throw(
+            `Property maxTransactionPerBlock is not defined in the preset. Did you mean 'maxTransactionsPerBlock'?`,
+        );
+        expect(() => provenance.explain(presetData, 'name', 'api-node')).to.throw(
+            'Node api-node could not be found. Possible values are: node-0, node-1',
+        );
+    });
+});
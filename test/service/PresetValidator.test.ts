@@ -0,0 +1,159 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import { readdirSync } from 'fs';
+import * as _ from 'lodash';
+import 'mocha';
+import { join } from 'path';
+import { BootstrapUtils, ConfigLoader, Preset, PresetValidator } from '../../src/service';
+
+describe('PresetValidator', () => {
+    const validator = new PresetValidator('.');
+
+    it('bundled presets are valid', () => {
+        const presetFiles = [
+            join('presets', 'shared.yml'),
+            ..._.flatMap(Object.values(Preset), (preset) =>
+                readdirSync(join('presets', preset))
+                    .filter((file) => file.endsWith('.yml'))
+                    .map((file) => join('presets', preset, file)),
+            ),
+        ];
+        presetFiles.forEach((presetFile) => {
+            expect(validator.validateSchema(BootstrapUtils.loadYaml(presetFile, false)), presetFile).deep.eq([]);
+        });
+    });
+
+    it('test custom presets are valid', () => {
+        ['test/custom_preset.yml', 'test/repeat_preset.yml', 'test/unit-test-profiles/supernode.yml', 'test/optin_preset.yml'].forEach(
+            (presetFile) => {
+                expect(validator.validateSchema(BootstrapUtils.loadYaml(presetFile, false)), presetFile).deep.eq([]);
+            },
+        );
+    });
+
+    it('unknown property suggests the closest key', () => {
+        const customPreset: any = { nodes: [{ harvestng: true }], maxTransactionsPerBlok: 10 };
+        expect(validator.validateSchema(customPreset)).deep.eq([
+            { path: 'nodes[0].harvestng', message: `Unknown property. Did you mean 'harvesting'?` },
+            { path: 'maxTransactionsPerBlok', message: `Unknown property. Did you mean 'maxTransactionsPerBlock'?` },
+        ]);
+        expect(validator.validateSchema({ someRandomProperty: 'abc' } as any)).deep.eq([
+            { path: 'someRandomProperty', message: `Unknown property.` },
+        ]);
+    });
+
+    it('legacy voting keys are removed by the custom preset migrations', () => {
+        expect(validator.validateSchema(BootstrapUtils.loadYaml('test/testnet-known-node-keys.yml', false))).deep.eq([
+            { path: 'nodes[0].votingPrivateKey', message: "Unknown property. Did you mean 'mainPrivateKey'?" },
+        ]);
+        expect(
+            validator.validate({
+                password: false,
+                preset: Preset.testnet,
+                assembly: 'dual',
+                customPreset: 'test/testnet-known-node-keys.yml',
+            }),
+        ).deep.eq([]);
+        expect(validator.validateSchema({ votingPrivateKey: 'ABC' } as any)).deep.eq([
+            { path: 'votingPrivateKey', message: 'Unknown property.' },
+        ]);
+    });
+
+    it('invalid types', () => {
+        const customPreset: any = {
+            nodes: [{ nodePort: '7900', harvesting: 'yes', openPort: {} }],
+            knownRestGateways: 'http://localhost:3000',
+            rewardProgramEnrollmentAddress: 123,
+        };
+        expect(validator.validateSchema(customPreset)).deep.eq([
+            { path: 'nodes[0].nodePort', message: `Expected number but got string '7900'.` },
+            { path: 'nodes[0].harvesting', message: `Expected boolean but got string 'yes'.` },
+            { path: 'nodes[0].openPort', message: `Expected string or number or boolean but got object.` },
+            { path: 'knownRestGateways', message: `Expected array but got string 'http://localhost:3000'.` },
+            { path: 'rewardProgramEnrollmentAddress', message: `Expected string but got number 123.` },
+        ]);
+    });
+
+    it('enums', () => {
+        expect(validator.validateSchema({ nodes: [{ rewardProgram: 'superNode' }] } as any)).deep.eq([]);
+        expect(validator.validateSchema({ nodes: [{ rewardProgram: 'otherProgram' }] } as any)).deep.eq([
+            {
+                path: 'nodes[0].rewardProgram',
+                message: `Expected one of EarlyAdoption, Ecosystem, MonitorOnly, SuperNode but got string 'otherProgram'.`,
+            },
+        ]);
+    });
+
+    it('templates and empty values are not validated', () => {
+        const customPreset: any = {
+            nodes: [{ nodePort: '{{add $index 7900}}', repeat: 2 }],
+            batchVerificationRandomSource: null,
+        };
+        expect(validator.validateSchema(customPreset)).deep.eq([]);
+    });
+
+    it('findClosestKey', () => {
+        expect(PresetValidator.findClosestKey('hots', ['host', 'name'])).eq('host');
+        expect(PresetValidator.findClosestKey('HOST', ['host', 'name'])).eq('host');
+        expect(PresetValidator.findClosestKey('abcdef', ['host', 'name'])).undefined;
+    });
+
+    it('validatePresetData', () => {
+        const presetData: any = {
+            votingKeyDesiredLifetime: 720,
+            votingKeyDesiredFutureLifetime: 120,
+            finalizationSize: 10000,
+            finalizationThreshold: 7000,
+            nodes: [
+                { name: 'node-0', api: true },
+                { name: 'node-1', finalizationThreshold: 10001 },
+            ],
+            gateways: [{ name: 'gateway', apiNodeName: 'node-0' }],
+        };
+        expect(validator.validatePresetData(presetData)).deep.eq([
+            { path: 'nodes[1].finalizationThreshold', message: 'It must not be greater than finalizationSize (10000) but got 10001.' },
+        ]);
+        presetData.nodes[1].finalizationThreshold = 7000;
+        expect(validator.validatePresetData(presetData)).deep.eq([]);
+    });
+
+    it('validate resolves the preset', () => {
+        expect(validator.validate({ password: false, preset: Preset.bootstrap, customPreset: 'test/repeat_preset.yml' })).deep.eq([]);
+        expect(
+            validator.validate({ password: false, preset: Preset.bootstrap, customPresetObject: { nodes: [{ harvestng: true }] } as any }),
+        ).deep.eq([{ path: 'nodes[0].harvestng', message: `Unknown property. Did you mean 'harvesting'?` }]);
+    });
+
+    it('createPresetData fails when custom preset is invalid', async () => {
+        try {
+            new ConfigLoader().createPresetData({
+                root: '.',
+                preset: Preset.bootstrap,
+                password: false,
+                customPresetObject: { nodes: [{ harvestng: true }] } as any,
+            });
+        } catch (e) {
+            expect(e.known).eq(true);
+            expect(e.message).eq(
+                `Custom preset object is not valid:\n  - nodes[0].harvestng: Unknown property. Did you mean 'harvesting'?`,
+            );
+            return;
+        }
+        expect(true).to.be.false;
+    });
+});
@@ -0,0 +1,61 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { NodeStatus, StatusService } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('StatusService', () => {
+    const target = 'target/tests.StatusService';
+
+    before(async () => {
+        await TestUtils.createBootstrapTarget(target);
+    });
+
+    it('status when down', async () => {
+        const statuses = await new StatusService({ target }).run();
+        expect(statuses.map((s) => s.name)).deep.eq(['peer-node-0', 'peer-node-1', 'api-node-0']);
+        expect(statuses.map((s) => s.url)).deep.eq([undefined, undefined, 'http://localhost:3000']);
+        expect(statuses[0].error).eq('The node has no rest gateway and there are no known rest gateways.');
+        expect(statuses[2].error).contain('No up and running node could be found out of:');
+    });
+
+    it('to table', () => {
+        const statuses: NodeStatus[] = [
+            {
+                name: 'api-node-0',
+                url: 'http://localhost:3000',
+                height: '1000',
+                finalizedHeight: '980',
+                finalizationEpoch: 10,
+                peers: 2,
+                roles: ['PeerNode', 'ApiNode'],
+                remote: '09DA71927DCBB67FD0352CFC16114BE51B87538E0AA8FC64233439E3DBAC87FB',
+                voting: ['A8443EE1BE131A300D321BAF116E18F6A339BB2FF16C02ED0C4D6C1EB71A648B(1-180)'],
+                balance: 20000,
+                minHarvesterBalance: 10000,
+                minVoterBalance: 3000000,
+            },
+            { name: 'peer-node-0', error: 'Some error' },
+        ];
+        expect(StatusService.toTable(statuses).split('\n')).deep.eq([
+            'Node        | Url                   | Height | Finalized | Epoch | Peers | Roles            | Remote      | VRF | Voting             | Balance',
+            'api-node-0  | http://localhost:3000 | 1000   | 980       | 10    | 2     | PeerNode,ApiNode | 09DA7192... | -   | A8443EE1...(1-180) | 20000 (harvester min 10000, voter min 3000000)',
+            'peer-node-0 | -                     | Error: Some error',
+        ]);
+    });
+});
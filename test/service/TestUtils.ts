@@ -0,0 +1,96 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AccountInfoDTO, SupplementalPublicKeysDTO } from 'symbol-openapi-typescript-fetch-client';
+import { AccountHttp, AccountInfo } from 'symbol-sdk';
+import { Addresses, ConfigPreset } from '../../src/model';
+import { BootstrapUtils, ConfigLoader, CryptoUtils, Preset } from '../../src/service';
+
+/**
+ * Shared fixtures of the service tests.
+ */
+export class TestUtils {
+    /**
+     * It creates the main account info a node returns with the provided linked keys.
+     *
+     * @param supplementalPublicKeys the linked remote, vrf and voting keys.
+     */
+    public static createMainAccountInfo(supplementalPublicKeys: SupplementalPublicKeysDTO = {}): AccountInfo {
+        const accountInfoDto: AccountInfoDTO = {
+            account: {
+                version: 1,
+                address: '98FDAF58576716949328890D535F82C2C7A740F8902A9CED',
+                addressHeight: '1',
+                publicKey: 'A8443EE1BE131A300D321BAF116E18F6A339BB2FF16C02ED0C4D6C1EB71A648B',
+                publicKeyHeight: '1',
+                accountType: 1,
+                supplementalPublicKeys,
+                activityBuckets: [],
+                mosaics: [],
+                importance: '3000000',
+                importanceHeight: '180',
+            },
+            id: '60168F146AE03A2FE7139F9B',
+        };
+        return (AccountHttp as any)['toAccountInfo'](accountInfoDto);
+    }
+
+    /**
+     * It creates the preset and random addresses of the bootstrap preset, with the nodes peer-node-0, peer-node-1 and api-node-0.
+     *
+     * @param mnemonicFile the optional mnemonic file the keys are derived from.
+     */
+    public static async createBootstrapConfiguration(mnemonicFile?: string): Promise<{ presetData: ConfigPreset; addresses: Addresses }> {
+        const configLoader = new ConfigLoader();
+        const presetData = configLoader.createPresetData({ root: '.', preset: Preset.bootstrap, password: false, mnemonicFile });
+        const addresses = await configLoader.generateRandomConfiguration(undefined, presetData);
+        return { presetData, addresses };
+    }
+
+    /**
+     * It writes the preset.yml and addresses.yml of a target.
+     *
+     * @param target the target folder.
+     * @param presetData the preset, its private keys are removed.
+     * @param addresses the addresses.
+     * @param password the optional password the files are encrypted with.
+     */
+    public static async writeTarget(target: string, presetData: ConfigPreset, addresses: Addresses, password?: string): Promise<void> {
+        const configLoader = new ConfigLoader();
+        await BootstrapUtils.writeYaml(configLoader.getGeneratedAddressLocation(target), addresses, password);
+        await BootstrapUtils.writeYaml(
+            configLoader.getGeneratedPresetLocation(target),
+            CryptoUtils.removePrivateKeys(presetData),
+            password,
+        );
+    }
+
+    /**
+     * It recreates a target with the bootstrap preset configuration.
+     *
+     * @param target the target folder.
+     * @param password the optional password the files are encrypted with.
+     */
+    public static async createBootstrapTarget(
+        target: string,
+        password?: string,
+    ): Promise<{ presetData: ConfigPreset; addresses: Addresses }> {
+        BootstrapUtils.deleteFolder(target);
+        const configuration = await TestUtils.createBootstrapConfiguration();
+        await TestUtils.writeTarget(target, configuration.presetData, configuration.addresses, password);
+        return configuration;
+    }
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from '@oclif/test';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import 'mocha';
+import { join } from 'path';
+import { BootstrapUtils, ConfigLoader, VotingKeyBundleService, VotingUtils } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('VotingKeyBundleService', () => {
+    const folder = 'target/tests.VotingKeyBundleService';
+    const target = join(folder, 'target');
+    const configLoader = new ConfigLoader();
+
+    before(async () => {
+        BootstrapUtils.deleteFolder(folder);
+        await TestUtils.createBootstrapTarget(target);
+    });
+
+    it('generates and imports bundles', async () => {
+        const service = new VotingKeyBundleService();
+        const bundle1 = join(folder, 'bundle1');
+        const manifest = await service.generate({ out: bundle1, startEpoch: 1, endEpoch: 30, workers: 1 });
+        expect(manifest).deep.eq({
+            ...new VotingUtils().readVotingFile(readFileSync(join(bundle1, 'private_key_tree.dat'))),
+            version: 1,
+            filename: 'private_key_tree.dat',
+            sha256: manifest.sha256,
+        });
+        expect(BootstrapUtils.loadYaml(join(bundle1, 'manifest.yml'), false)).deep.eq(manifest);
+        await service.generate({ out: bundle1, startEpoch: 1, endEpoch: 30 }).then(
+            () => expect.fail('Bundle should not be overridden'),
+            (e) => expect(e.message).eq(`Bundle ${bundle1} already exists. Choose another --out folder.`),
+        );
+
+        const nodeAccount = await service.import({ target, password: false, bundle: bundle1, node: 'peer-node-0' });
+        const votingKeysFolder = join(BootstrapUtils.getTargetNodesFolder(target, false, 'peer-node-0'), 'votingkeys');
+        expect(readFileSync(join(votingKeysFolder, 'private_key_tree1.dat'))).deep.eq(readFileSync(join(bundle1, 'private_key_tree.dat')));
+        const expectedVoting = [{ publicKey: manifest.publicKey, startEpoch: 1, endEpoch: 30, filename: 'private_key_tree1.dat' }];
+        expect(nodeAccount.voting).deep.eq(expectedVoting);
+        const addresses = configLoader.loadExistingAddresses(target, false);
+        expect(addresses.nodes?.find((n) => n.name === 'peer-node-0')?.voting).deep.eq(expectedVoting);
+
+        await service.import({ target, password: false, bundle: bundle1, node: 'peer-node-0' }).then(
+            () => expect.fail('Bundle should not be imported twice'),
+            (e) => expect(e.message).eq(`Voting key ${manifest.publicKey} has already been imported as private_key_tree1.dat.`),
+        );
+
+        const bundle2 = join(folder, 'bundle2');
+        const manifest2 = await service.generate({ out: bundle2, startEpoch: 31, endEpoch: 60, workers: 1 });
+        const nodeAccount2 = await service.import({ target, password: false, bundle: bundle2, node: 'peer-node-0' });
+        expect(nodeAccount2.voting?.map((v) => [v.filename, v.publicKey])).deep.eq([
+            ['private_key_tree1.dat', manifest.publicKey],
+            ['private_key_tree2.dat', manifest2.publicKey],
+        ]);
+    });
+
+    it('validates bundles', async () => {
+        const service = new VotingKeyBundleService();
+        const bundle = join(folder, 'bundle3');
+        await service.generate({ out: bundle, startEpoch: 20, endEpoch: 50, workers: 1 });
+        await service.import({ target, password: false, bundle, node: 'unknown-node' }).then(
+            () => expect.fail('Node should not be found'),
+            (e) => expect(e.message).eq('Node unknown-node could not be found. Possible values are: peer-node-0, peer-node-1, api-node-0'),
+        );
+        await service.import({ target, password: false, bundle, node: 'peer-node-0' }).then(
+            () => expect.fail('Epochs should overlap'),
+            (e) => expect(e.message).eq('Voting key epochs 20-50 overlap private_key_tree1.dat epochs 1-30.'),
+        );
+
+        const file = readFileSync(join(bundle, 'private_key_tree.dat'));
+        // Flipped signature byte.
+        file[80 + 40] ^= 0xff;
+        writeFileSync(join(bundle, 'private_key_tree.dat'), file);
+        await service.loadBundle(bundle).then(
+            () => expect.fail('Checksum should not match'),
+            (e) =>
+                expect(e.message).eq(
+                    `Bundle voting key file ${join(bundle, 'private_key_tree.dat')} doesn't match the manifest's checksum.`,
+                ),
+        );
+        const manifestLocation = join(bundle, 'manifest.yml');
+        const manifest = BootstrapUtils.loadYaml(manifestLocation, false);
+        await BootstrapUtils.writeYaml(
+            manifestLocation,
+            { ...manifest, sha256: createHash('sha256').update(file).digest('hex') },
+            undefined,
+        );
+        await service.loadBundle(bundle).then(
+            () => expect.fail('File should not be valid'),
+            (e) =>
+                expect(e.message).eq(
+                    `Bundle voting key file ${join(
+                        bundle,
+                        'private_key_tree.dat',
+                    )} is not valid. 1 keys have invalid signatures. Epochs: 50`,
+                ),
+        );
+        await BootstrapUtils.writeYaml(manifestLocation, { ...manifest, filename: '../bundle1/private_key_tree.dat' }, undefined);
+        await service.loadBundle(bundle).then(
+            () => expect.fail('Manifest should not be valid'),
+            (e) => expect(e.message).eq(`Bundle manifest ${manifestLocation} is not valid.`),
+        );
+    });
+});
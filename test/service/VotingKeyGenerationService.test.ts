@@ -0,0 +1,69 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from '@oclif/test';
+import { readFileSync } from 'fs';
+import 'mocha';
+import { Account, Convert, NetworkType } from 'symbol-sdk';
+import { VotingKeyGenerationProgress, VotingKeyGenerationService, VotingUtils } from '../../src/service';
+
+describe('VotingKeyGenerationService', () => {
+    const privateKey = 'EFE3F0EF0AB368B8D7AC194D52A8CCFA2D5050B80B9C76E4D2F4D4BF2CD461C1';
+
+    // The bound private keys of a catapult.tools.votingkey file.
+    const getPrivateKeys = (file: Uint8Array): Uint8Array[] => {
+        const headerSize = 64 + 16;
+        const itemSize = 32 + 64;
+        const items = (file.length - headerSize) / itemSize;
+        return [...Array(items).keys()].map((i) => file.slice(headerSize + i * itemSize, headerSize + i * itemSize + 32));
+    };
+
+    VotingUtils.implementations.forEach((implementation) => {
+        it(`creates the catapult file using workers and ${implementation.name}`, async () => {
+            const expectedFile = new Uint8Array(readFileSync('./test/votingkeys/private_key_tree1.dat'));
+            const privateKeys = getPrivateKeys(expectedFile);
+            const votingFile = await new VotingKeyGenerationService({ workers: 4, implementation }).createVotingFile(
+                privateKey,
+                5,
+                10,
+                privateKeys,
+            );
+            expect(Convert.uint8ToHex(votingFile)).eq(Convert.uint8ToHex(expectedFile));
+            const singleThreadFile = await new VotingUtils(implementation).createVotingFile(privateKey, 5, 10, privateKeys);
+            expect(Convert.uint8ToHex(votingFile)).eq(Convert.uint8ToHex(singleThreadFile));
+        });
+    });
+
+    it('creates a file reporting progress', async () => {
+        const expectedFile = new Uint8Array(readFileSync('./test/votingkeys/private_key_tree4.dat'));
+        const progress: VotingKeyGenerationProgress[] = [];
+        const votingFile = await new VotingKeyGenerationService({
+            workers: 3,
+            onProgress: (p) => progress.push(p),
+        }).createVotingFile(privateKey, 1, 1000, getPrivateKeys(expectedFile));
+        expect(Convert.uint8ToHex(votingFile)).eq(Convert.uint8ToHex(expectedFile));
+        // 3 workers of 334, 334 and 332 keys reporting every 100 keys.
+        expect(progress.length).eq(12);
+        expect(progress.map((p) => p.done)).deep.eq([...progress.map((p) => p.done)].sort((a, b) => a - b));
+        expect(progress[progress.length - 1]).deep.eq({ done: 1000, total: 1000, eta: 0 });
+    });
+
+    it('creates a random file', async () => {
+        const account = Account.generateNewAccount(NetworkType.TEST_NET);
+        const votingFile = await new VotingKeyGenerationService({ workers: 2 }).createVotingFile(account.privateKey, 11, 60);
+        const verification = await new VotingUtils().verifyVotingFile(votingFile);
+        expect(verification).deep.eq({ account: { publicKey: account.publicKey, startEpoch: 11, endEpoch: 60 }, wipedKeys: 0, errors: [] });
+    });
+});
@@ -0,0 +1,74 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import { writeFileSync } from 'fs';
+import 'mocha';
+import { join } from 'path';
+import { Account } from 'symbol-sdk';
+import { BootstrapUtils, VotingKeyListService, VotingUtils } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('VotingKeyListService', () => {
+    const target = 'target/tests.VotingKeyListService';
+
+    before(async () => {
+        BootstrapUtils.deleteFolder(target);
+        const { presetData, addresses } = await TestUtils.createBootstrapConfiguration();
+        await TestUtils.writeTarget(target, { ...presetData, lastKnownNetworkEpoch: 12 }, addresses);
+        const votingKeysFolder = join(BootstrapUtils.getTargetNodesFolder(target, false, 'peer-node-0'), presetData.votingKeysDirectory);
+        await BootstrapUtils.mkdir(votingKeysFolder);
+        const votingUtils = new VotingUtils();
+        const epochs = [
+            [1, 10],
+            [11, 20],
+            [21, 30],
+        ];
+        for (const [index, [startEpoch, endEpoch]] of epochs.entries()) {
+            const votingFile = await votingUtils.createVotingFile(
+                Account.generateNewAccount(presetData.networkType).privateKey,
+                startEpoch,
+                endEpoch,
+            );
+            writeFileSync(join(votingKeysFolder, `private_key_tree${index + 1}.dat`), votingFile);
+        }
+    });
+
+    it('estimates epoch dates', () => {
+        const now = Date.parse('2021-07-01T00:00:00.000Z');
+        expect(VotingKeyListService.estimateEpochStart(10, 10, 3600, now).toISOString()).eq('2021-07-01T00:00:00.000Z');
+        expect(VotingKeyListService.estimateEpochStart(34, 10, 3600, now).toISOString()).eq('2021-07-02T00:00:00.000Z');
+        expect(VotingKeyListService.estimateEpochStart(9, 10, 3600, now).toISOString()).eq('2021-06-30T23:00:00.000Z');
+    });
+
+    it('lists offline', async () => {
+        const entries = await new VotingKeyListService({
+            target,
+            url: 'http://localhost:3000',
+            useKnownRestGateways: false,
+            offline: true,
+        }).run();
+        expect(entries.map((e) => [e.node, e.filename, e.startEpoch, e.endEpoch, e.status, e.linked])).deep.eq([
+            ['peer-node-0', 'private_key_tree1.dat', 1, 10, 'expired', undefined],
+            ['peer-node-0', 'private_key_tree2.dat', 11, 20, 'active', undefined],
+            ['peer-node-0', 'private_key_tree3.dat', 21, 30, 'future', undefined],
+        ]);
+        // Bootstrap epochs take 180 blocks of 15 seconds.
+        const epochMillis = 180 * 15 * 1000;
+        expect(entries[1].estimatedExpiry.getTime() - entries[1].estimatedStart.getTime()).eq(10 * epochMillis);
+        expect(entries[2].estimatedStart.getTime()).eq(entries[1].estimatedExpiry.getTime());
+    });
+});
@@ -0,0 +1,80 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { Deadline, LinkAction, NetworkType, UInt64 } from 'symbol-sdk';
+import { ConfigPreset, NodeAccount } from '../../src/model';
+import { LinkService, VotingKeyFile, VotingKeyPruneService } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('VotingKeyPruneService', () => {
+    const files: VotingKeyFile[] = [
+        {
+            filename: 'private_key_tree1.dat',
+            publicKey: 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+            startEpoch: 1,
+            endEpoch: 10,
+        },
+        {
+            filename: 'private_key_tree2.dat',
+            publicKey: 'BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+            startEpoch: 11,
+            endEpoch: 20,
+        },
+        {
+            filename: 'private_key_tree3.dat',
+            publicKey: 'CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC',
+            startEpoch: 21,
+            endEpoch: 30,
+        },
+    ];
+    const mainAccountInfo = TestUtils.createMainAccountInfo({
+        voting: {
+            publicKeys: [
+                { publicKey: 'BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB', startEpoch: 11, endEpoch: 20 },
+                { publicKey: 'CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC', startEpoch: 21, endEpoch: 30 },
+            ],
+        },
+    });
+
+    it('resolves the expired files', () => {
+        expect(VotingKeyPruneService.getExpiredFiles(files, 20).map((f) => f.filename)).deep.eq(['private_key_tree1.dat']);
+        expect(VotingKeyPruneService.getExpiredFiles(files, 21).map((f) => f.filename)).deep.eq([
+            'private_key_tree1.dat',
+            'private_key_tree2.dat',
+        ]);
+    });
+
+    it('resolves the running nodes', () => {
+        expect(VotingKeyPruneService.getRunningNodes(['peer-node-0', 'api-node-0'], ['api-node-0', 'db'])).deep.eq(['api-node-0']);
+        expect(VotingKeyPruneService.getRunningNodes(['peer-node-0'], [])).deep.eq([]);
+    });
+
+    it('creates the unlink transactions of the linked expired keys', async () => {
+        const service = new VotingKeyPruneService({ ...LinkService.defaultParams, ready: true });
+        const transactions = await service.createTransactions(VotingKeyPruneService.getExpiredFiles(files, 21), {
+            presetData: { networkType: NetworkType.TEST_NET } as ConfigPreset,
+            nodeAccount: { name: 'voting-node' } as NodeAccount,
+            mainAccountInfo,
+            deadline: Deadline.create(1),
+            maxFee: UInt64.fromUint(10),
+        });
+        expect(transactions.map((t) => [t.linkedPublicKey, t.startEpoch, t.endEpoch, t.linkAction])).deep.eq([
+            ['BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB', 11, 20, LinkAction.Unlink],
+        ]);
+    });
+});
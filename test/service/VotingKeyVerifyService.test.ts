@@ -0,0 +1,72 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from '@oclif/test';
+import { writeFileSync } from 'fs';
+import 'mocha';
+import { join } from 'path';
+import { Account } from 'symbol-sdk';
+import { BootstrapUtils, VotingKeyVerifyService, VotingUtils } from '../../src/service';
+import { TestUtils } from './TestUtils';
+
+describe('VotingKeyVerifyService', () => {
+    const target = 'target/tests.VotingKeyVerifyService';
+
+    before(async () => {
+        BootstrapUtils.deleteFolder(target);
+        const { presetData, addresses } = await TestUtils.createBootstrapConfiguration();
+        const votingKeysFolder = join(BootstrapUtils.getTargetNodesFolder(target, false, 'peer-node-0'), presetData.votingKeysDirectory);
+        await BootstrapUtils.mkdir(votingKeysFolder);
+        const votingUtils = new VotingUtils();
+        const files = [];
+        for (const [index, [startEpoch, endEpoch]] of [
+            [1, 10],
+            [11, 20],
+            [21, 30],
+        ].entries()) {
+            const filename = `private_key_tree${index + 1}.dat`;
+            const votingFile = await votingUtils.createVotingFile(
+                Account.generateNewAccount(presetData.networkType).privateKey,
+                startEpoch,
+                endEpoch,
+            );
+            files.push({ ...votingUtils.readVotingFile(votingFile), filename });
+            if (index == 1) {
+                // Truncated file
+                writeFileSync(join(votingKeysFolder, filename), votingFile.slice(0, votingFile.length - 96));
+            } else {
+                writeFileSync(join(votingKeysFolder, filename), votingFile);
+            }
+        }
+        // The third file is not the one addresses.yml records.
+        const peerNode = addresses.nodes?.find((n) => n.name === 'peer-node-0');
+        if (!peerNode) {
+            throw new Error('peer-node-0 not found');
+        }
+        peerNode.voting = [files[0], files[1], { ...files[2], publicKey: Account.generateNewAccount(presetData.networkType).publicKey }];
+        await TestUtils.writeTarget(target, presetData, addresses);
+    });
+
+    it('verifies', async () => {
+        const entries = await new VotingKeyVerifyService({ target, offline: true }).run();
+        expect(entries.map((e) => [e.node, e.filename, e.errors.length])).deep.eq([
+            ['peer-node-0', 'private_key_tree1.dat', 0],
+            ['peer-node-0', 'private_key_tree2.dat', 1],
+            ['peer-node-0', 'private_key_tree3.dat', 1],
+        ]);
+        expect(entries[1].errors[0]).eq('Unexpected voting key file. Expected 1040 but got 944');
+        expect(entries[2].errors[0]).match(/^Root public key \w+, epochs 21-30 don't match addresses.yml public key \w+, epochs 21-30.$/);
+    });
+});
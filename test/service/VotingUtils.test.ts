@@ -142,6 +142,99 @@ describe('VotingUtils', () => {
         await assertVotingKey(testFile, privateKey, votingKeyStartEpoch, votingKeyEndEpoch);
     });
 
+    it('verifyVotingFile catapult files', async () => {
+        const service = new VotingUtils();
+        const files: [string, number, number][] = [
+            ['private_key_tree1.dat', 5, 10],
+            ['private_key_tree3.dat', 10, 10],
+            ['private_key_tree4.dat', 1, 1000],
+        ];
+        for (const [filename, startEpoch, endEpoch] of files) {
+            const verification = await service.verifyVotingFile(new Uint8Array(readFileSync(`./test/votingkeys/${filename}`)));
+            expect(verification.errors).deep.eq([]);
+            expect(verification.wipedKeys).eq(0);
+            expect(verification.account).deep.eq({
+                publicKey: '7834C8AAEFB09402DA32B22768D7CF9DCAC78A7774392E4452F07DDF776E088D',
+                startEpoch,
+                endEpoch,
+            });
+        }
+    });
+
+    it('verifyVotingFile wiped keys', async () => {
+        const service = new VotingUtils();
+        const file = new Uint8Array(readFileSync('./test/votingkeys/private_key_tree1.dat'));
+        const headerSize = 64 + 16;
+        const itemSize = 32 + 64;
+        // Keys are written in reverse order, the item index of epoch 5 out of 5-10 is 5.
+        const wipe = (source: Uint8Array, epochs: number[]): Uint8Array => {
+            const wiped = source.slice();
+            epochs.forEach((epoch) => wiped.fill(0, headerSize + (10 - epoch) * itemSize, headerSize + (10 - epoch) * itemSize + 32));
+            return wiped;
+        };
+
+        // The node wipes the used keys.
+        const wiped = wipe(file, [5]);
+        expect(await service.verifyVotingFile(wiped, 5)).deep.include({ wipedKeys: 1, errors: [] });
+        expect(await service.verifyVotingFile(wiped, 20)).deep.include({ wipedKeys: 1, errors: [] });
+        expect(await service.verifyVotingFile(wiped, 4)).deep.include({
+            wipedKeys: 1,
+            errors: ['1 keys are unexpectedly wiped. Epochs: 5'],
+        });
+        expect(await service.verifyVotingFile(wiped)).deep.include({
+            wipedKeys: 1,
+            errors: ['1 keys are unexpectedly wiped, the current finalization epoch is unknown. Epochs: 5'],
+        });
+
+        // A wiped key of a future epoch.
+        const wipedFuture = wipe(file, [5, 6, 8]);
+        expect(await service.verifyVotingFile(wipedFuture, 6)).deep.include({
+            wipedKeys: 3,
+            errors: ['1 keys are unexpectedly wiped. Epochs: 8'],
+        });
+        expect(await service.verifyVotingFile(wipedFuture, 8)).deep.include({
+            wipedKeys: 3,
+            errors: ['1 keys are unexpectedly wiped. Epochs: 8'],
+        });
+
+        // A fully wiped file.
+        const fullyWiped = wipe(file, [5, 6, 7, 8, 9, 10]);
+        expect(await service.verifyVotingFile(fullyWiped, 2)).deep.include({
+            wipedKeys: 6,
+            errors: ['6 keys are unexpectedly wiped. Epochs: 5, 6, 7, 8, 9, 10'],
+        });
+        expect(await service.verifyVotingFile(fullyWiped, 20)).deep.include({
+            wipedKeys: 6,
+            errors: ['1 keys are unexpectedly wiped. Epochs: 10'],
+        });
+        expect((await service.verifyVotingFile(fullyWiped)).errors).deep.eq([
+            '6 keys are unexpectedly wiped, the current finalization epoch is unknown. Epochs: 5, 6, 7, 8, 9, 10',
+        ]);
+    });
+
+    it('verifyVotingFile corrupted files', async () => {
+        const service = new VotingUtils();
+        const file = new Uint8Array(readFileSync('./test/votingkeys/private_key_tree1.dat'));
+        const headerSize = 64 + 16;
+        const itemSize = 32 + 64;
+
+        // Flipped signature byte of the second key, epoch 9.
+        const corrupted = file.slice();
+        corrupted[headerSize + itemSize + 40] ^= 0xff;
+        expect((await service.verifyVotingFile(corrupted)).errors).deep.eq(['1 keys have invalid signatures. Epochs: 9']);
+
+        expect((await service.verifyVotingFile(file.slice(0, file.length - 10))).errors).deep.eq([
+            'Unexpected voting key file. Expected 656 but got 646',
+        ]);
+        expect((await service.verifyVotingFile(file.slice(0, 20))).errors).deep.eq([
+            'Unexpected voting key file. Expected at least 80 bytes but got 20',
+        ]);
+
+        const wrongLevel = file.slice();
+        wrongLevel.set(Convert.numberToUint8Array(11, 8), 72);
+        expect((await service.verifyVotingFile(wrongLevel)).errors).deep.eq(["Key level epochs 5-11 don't match the header epochs 5-10"]);
+    });
+
     type VectorData = {
         privateKey: string;
         publicKey: string;
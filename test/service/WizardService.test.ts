@@ -0,0 +1,109 @@
+/*
+ * Copyright 2021 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from '@oclif/test';
+import 'mocha';
+import { PrivateKeySecurityMode } from '../../src/model';
+import { BootstrapUtils, CryptoUtils, PresetValidator, WizardService } from '../../src/service';
+
+describe('WizardService', () => {
+    const target = 'target/tests.WizardService';
+    const expectedCustomPreset = {
+        version: 4,
+        preset: 'testnet',
+        assembly: 'dual',
+        privateKeySecurityMode: 'PROMPT_MAIN',
+        nodes: [
+            {
+                host: 'my-node.mycompany.com',
+                friendlyName: 'my-node',
+                voting: true,
+                harvesting: true,
+                mainPrivateKey: 'CA82E7ADAF7AB729A5462A1BD5AA78632390634904A64EB1BB22295E2E1A1BDD',
+            },
+        ],
+    };
+
+    it('creates the custom preset from the answers file', async () => {
+        BootstrapUtils.deleteFolder(target);
+        const customPreset = `${target}/custom-preset.yml`;
+        await new WizardService('.', { target, customPreset, answers: 'test/wizard/answers.yml' }).run();
+        expect(BootstrapUtils.loadFileAsText(customPreset)).contain('# The public host other nodes and clients use to reach this node.');
+        expect(BootstrapUtils.loadYaml(customPreset, false)).deep.eq(expectedCustomPreset);
+        expect(new PresetValidator('.').validate({ password: false, customPreset })).deep.eq([]);
+    });
+
+    it('encrypts the imported keys when a password is provided', async () => {
+        BootstrapUtils.deleteFolder(target);
+        const customPreset = `${target}/custom-preset.yml`;
+        await new WizardService('.', { target, customPreset, answers: 'test/wizard/answers.yml', password: '1234' }).run();
+        expect(CryptoUtils.encryptedCount(BootstrapUtils.loadYaml(customPreset, false))).eq(1);
+        expect(BootstrapUtils.loadYaml(customPreset, '1234')).deep.eq(expectedCustomPreset);
+    });
+
+    it('does not override an existing custom preset', async () => {
+        const service = new WizardService('.', { target, customPreset: 'test/wizard/answers.yml', answers: 'test/wizard/answers.yml' });
+        try {
+            await service.run();
+            expect.fail('Expected error');
+        } catch (e) {
+            expect(e.message).eq('Custom preset file test/wizard/answers.yml already exists!');
+        }
+    });
+
+    it('invalid answers', () => {
+        const service = new WizardService('.', { target, customPreset: `${target}/custom-preset.yml` });
+        expect(() => service.loadAnswers('test/wizard/invalid-answers.yml')).throw(
+            `Invalid assembly 'full' in answers file test/wizard/invalid-answers.yml. Possible values are: api, demo, dual, peer`,
+        );
+        expect(() => service.loadAnswers('test/wizard/missing.yml')).throw(`Answers file test/wizard/missing.yml doesn't exist!`);
+        expect(() => service.loadAnswers('test/wizard/missing-main-key-answers.yml')).throw(
+            `Private key security mode PROMPT_MAIN requires the imported main private key. Answers file test/wizard/missing-main-key-answers.yml.`,
+        );
+        expect(() => service.loadAnswers('test/wizard/prompt-all-answers.yml')).throw(
+            `Invalid privateKeySecurityMode 'PROMPT_ALL' in answers file test/wizard/prompt-all-answers.yml. Possible values are: ENCRYPT, PROMPT_MAIN, PROMPT_MAIN_TRANSPORT`,
+        );
+        expect(() => service.loadAnswers('test/wizard/presets-folder-answers.yml')).throw(
+            `Invalid preset 'privatenet' in answers file test/wizard/presets-folder-answers.yml. Possible values are: bootstrap, testnet, mainnet`,
+        );
+    });
+
+    it('required keys', () => {
+        expect(WizardService.getRequiredKeys(PrivateKeySecurityMode.ENCRYPT)).deep.eq([]);
+        expect(WizardService.getRequiredKeys(PrivateKeySecurityMode.PROMPT_MAIN)).deep.eq(['main']);
+        expect(WizardService.getRequiredKeys(PrivateKeySecurityMode.PROMPT_MAIN_TRANSPORT)).deep.eq(['main', 'transport']);
+    });
+
+    it('offers the presets of the presets folder', async () => {
+        BootstrapUtils.deleteFolder(target);
+        const customPreset = `${target}/custom-preset.yml`;
+        await new WizardService('.', {
+            target,
+            customPreset,
+            presetsFolder: 'test/presetsFolder',
+            answers: 'test/wizard/presets-folder-answers.yml',
+        }).run();
+        expect(BootstrapUtils.loadYaml(customPreset, false)).deep.eq({
+            version: 4,
+            preset: 'privatenet',
+            presetsFolder: 'test/presetsFolder',
+            assembly: 'peer',
+            privateKeySecurityMode: 'ENCRYPT',
+            nodes: [{ friendlyName: 'my-private-node', voting: false, harvesting: true }],
+        });
+        expect(new PresetValidator('.').validate({ password: false, customPreset })).deep.eq([]);
+    });
+});